@@ -0,0 +1,104 @@
+/**
+ * Async initialization example
+ *
+ * Demonstrates:
+ * - Creating services with async factories (Layer.effect)
+ * - Resolving async services with createContainerAsync
+ * - Independent services initializing concurrently
+ */
+
+import { createContainerAsync, Layer, tag } from '../src/index.ts'
+
+// Define services that need async setup
+interface Secrets {
+  databasePassword: string
+}
+
+interface DatabasePool {
+  query(sql: string): Promise<unknown[]>
+}
+
+interface MessageBroker {
+  publish(topic: string, message: string): void
+}
+
+interface OrderService {
+  placeOrder(id: string): Promise<void>
+}
+
+// Create tags
+const SecretsTag = tag<Secrets>('Secrets')
+const DatabasePoolTag = tag<DatabasePool>('DatabasePool')
+const MessageBrokerTag = tag<MessageBroker>('MessageBroker')
+const OrderServiceTag = tag<OrderService>('OrderService')
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Secrets are loaded from a remote store
+const SecretsLive = Layer.effect(SecretsTag, async () => {
+  console.log('[Secrets] Loading')
+  await delay(10)
+  console.log('[Secrets] Loaded')
+  return { databasePassword: 'secret' }
+})
+
+// The pool waits for secrets before connecting
+const DatabasePoolLive = Layer.effect(
+  DatabasePoolTag,
+  [SecretsTag],
+  async (secrets) => {
+    console.log('[DB] Connecting')
+    await delay(10)
+    console.log(
+      `[DB] Connected (password length: ${secrets.databasePassword.length})`,
+    )
+    return {
+      query(sql: string) {
+        console.log(`[DB] Executing: ${sql}`)
+        return Promise.resolve([])
+      },
+    }
+  },
+)
+
+// The broker shares no dependency with the pool, so it connects concurrently
+const MessageBrokerLive = Layer.effect(MessageBrokerTag, async () => {
+  console.log('[Broker] Connecting')
+  await delay(5)
+  console.log('[Broker] Connected')
+  return {
+    publish(topic: string, message: string) {
+      console.log(`[Broker] ${topic}: ${message}`)
+    },
+  }
+})
+
+// Synchronous factories can depend on async services
+const OrderServiceLive = Layer.factory(
+  OrderServiceTag,
+  [DatabasePoolTag, MessageBrokerTag],
+  (db, broker) => ({
+    async placeOrder(id: string) {
+      await db.query(`INSERT INTO orders VALUES ('${id}')`)
+      broker.publish('orders', `placed ${id}`)
+    },
+  }),
+)
+
+const AppLayer = Layer.merge(
+  SecretsLive,
+  DatabasePoolLive,
+  MessageBrokerLive,
+  OrderServiceLive,
+)
+
+console.log('=== Initializing container ===')
+const container = await createContainerAsync(AppLayer)
+
+console.log('\n=== Using services ===')
+const orders = container.get(OrderServiceTag)
+await orders.placeOrder('order-1')
+
+await container.dispose()
@@ -135,15 +135,11 @@ const MockDatabase = Layer.value(DatabaseTag, {
   },
 })
 
-// Merge mock with app base (allowDuplicates needed for same tag)
-const TestLayer = Layer.merge([AppBaseLayer, MockDatabase], {
-  allowDuplicates: true,
-})
+// Replace the database of the dev layer, keeping its types
+// Type: Layer<Config | Database | UserService | Logger, never>
+const TestLayer = Layer.override(DevLayer, MockDatabase)
 
 const testContainer = createContainer(TestLayer)
-// Type assertion needed because allowDuplicates loses type information
-const testUserService = (
-  testContainer.get as <T>(tag: { name: string }) => T
-)<UserService>(UserServiceTag)
+const testUserService = testContainer.get(UserServiceTag)
 await testUserService.findUser('1')
 await testContainer.dispose()
@@ -0,0 +1,85 @@
+/**
+ * Request scope example
+ *
+ * Demonstrates:
+ * - Scoped services - one instance per child scope
+ * - Child scopes sharing singletons with their parent container
+ * - Disposing scoped services when the child scope ends
+ */
+
+import { createContainer, Layer, tag } from '../src/index.ts'
+
+// Define services
+interface Database {
+  query(sql: string): string[]
+}
+
+interface Transaction {
+  id: string
+  execute(sql: string): string[]
+}
+
+interface RequestLogger {
+  log(message: string): void
+}
+
+// Create tags
+const DatabaseTag = tag<Database>('Database')
+const TransactionTag = tag<Transaction>('Transaction')
+const RequestLoggerTag = tag<RequestLogger>('RequestLogger')
+
+// Singleton - shared by every request
+const DatabaseLive = Layer.factory(DatabaseTag, () => {
+  console.log('[DB] Connecting')
+  return { query: (sql: string) => [sql] }
+})
+
+let transactionCount = 0
+
+// Scoped - one transaction per request
+const TransactionLive = Layer.factory(
+  TransactionTag,
+  [DatabaseTag],
+  (db) => {
+    const id = `tx-${++transactionCount}`
+    console.log(`[${id}] Begin`)
+    return { id, execute: (sql: string) => db.query(sql) }
+  },
+  {
+    scope: 'scoped',
+    dispose: (tx) => {
+      console.log(`[${tx.id}] Commit`)
+    },
+  },
+)
+
+// Scoped - the logger shares the transaction of its request
+const RequestLoggerLive = Layer.factory(
+  RequestLoggerTag,
+  [TransactionTag],
+  (tx) => ({ log: (message: string) => console.log(`[${tx.id}] ${message}`) }),
+  { scope: 'scoped' },
+)
+
+const container = createContainer(
+  Layer.merge(DatabaseLive, TransactionLive, RequestLoggerLive),
+)
+
+async function handleRequest(path: string): Promise<void> {
+  const scope = container.createScope()
+  try {
+    const logger = scope.get(RequestLoggerTag)
+    const tx = scope.get(TransactionTag)
+
+    logger.log(`Handling ${path}`)
+    tx.execute(`SELECT * FROM pages WHERE path = '${path}'`)
+  } finally {
+    await scope.dispose()
+  }
+}
+
+console.log('=== Handling requests ===')
+await handleRequest('/home')
+await handleRequest('/about')
+
+await container.dispose()
@@ -4,7 +4,7 @@
  * Demonstrates:
  * - Using dispose callbacks for cleanup
  * - Asynchronous resource cleanup
- * - Proper disposal order (reverse of creation)
+ * - Proper disposal order (dependents before their dependencies)
  */
 
 import { createContainer, Layer, tag } from '../src/index.ts'
@@ -83,11 +83,11 @@ const WatcherLive = Layer.factory(
   },
 )
 
-// Cache service with dispose callback
+// Cache service backed by the database, with dispose callback
 const CacheLive = Layer.factory(
   CacheTag,
-  [],
-  () => {
+  [DatabaseTag],
+  (_db) => {
     const store = new Map<string, unknown>()
     return {
       get(key: string) {
@@ -125,5 +125,6 @@ cache.set('key', 'value')
 
 console.log('\n=== Disposing container ===')
 
-// Dispose will be called in reverse order: Cache -> Watcher -> Database
+// Cache depends on Database, so the cache is cleared before the database is
+// closed. Watcher shares no dependency with either and is stopped concurrently.
 await container.dispose()
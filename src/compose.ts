@@ -0,0 +1,149 @@
+import { LayerMapError, OverrideError } from './errors.ts'
+import { buildGraph, getScope, validateGraph } from './graph.ts'
+import type { Layer } from './layer.ts'
+import { LayerImpl, toLayerImpl } from './layer-impl.ts'
+import { describeGraph } from './serialize.ts'
+import type { Any, ServiceGraph, ServiceType, Tag } from './types.ts'
+
+/**
+ * Feed the outputs of `provider` into the requirements of `consumer`
+ *
+ * The provider's services are private to the consumer: containers cannot
+ * resolve them directly, they do not satisfy the requirements of layers
+ * merged alongside it, and they never collide with services of the same tag
+ * provided elsewhere.
+ * @example
+ * const UserServiceLive = Layer.provide(UserServiceImpl, UserRepositoryLive)
+ */
+export function provide<COut, CIn, POut, PIn>(
+  consumer: Layer<COut, CIn>,
+  provider: Layer<POut, PIn>,
+): Layer<COut, Exclude<CIn, POut> | PIn> {
+  return createProvidedLayer('provide', consumer as Layer, provider as Layer)
+}
+
+/**
+ * Feed the outputs of `provider` into the requirements of `consumer`,
+ * keeping the provider's services visible in the result
+ */
+export function provideMerge<COut, CIn, POut, PIn>(
+  consumer: Layer<COut, CIn>,
+  provider: Layer<POut, PIn>,
+): Layer<COut | POut, Exclude<CIn, POut> | PIn> {
+  return createProvidedLayer(
+    'provideMerge',
+    consumer as Layer,
+    provider as Layer,
+  )
+}
+
+function createProvidedLayer<Out, In>(
+  type: 'provide' | 'provideMerge',
+  consumer: Layer,
+  provider: Layer,
+): Layer<Out, In> {
+  return new LayerImpl<Out, In>(
+    type,
+    undefined,
+    undefined,
+    [],
+    undefined,
+    undefined,
+    [toLayerImpl(consumer), toLayerImpl(provider)],
+    undefined,
+  )
+}
+
+/**
+ * Replace services of `base` with the ones provided by `replacement`
+ *
+ * The result keeps the types of `base`. Every service of the replacement must
+ * be provided by the base layer.
+ * @example
+ * const TestLayer = Layer.override(AppLive, Layer.value(DatabaseTag, mockDb))
+ */
+export function override<Out, In, ROut extends Out, RIn>(
+  base: Layer<Out, In>,
+  replacement: Layer<ROut, RIn>,
+): Layer<Out, In | Exclude<RIn, Out>> {
+  const baseImpl = toLayerImpl(base as Layer)
+  const replacementImpl = toLayerImpl(replacement as Layer)
+
+  const graph = buildGraph(baseImpl)
+  for (const tag of buildGraph(replacementImpl).nodes.values()) {
+    if (!graph.nodes.has(tag.key)) {
+      throw new OverrideError(tag)
+    }
+  }
+
+  return new LayerImpl<Out, In | Exclude<RIn, Out>>(
+    'override',
+    undefined,
+    undefined,
+    [],
+    undefined,
+    undefined,
+    [baseImpl, replacementImpl],
+    undefined,
+  )
+}
+
+/**
+ * Provide a service derived from the only service of `layer`
+ *
+ * The service of `layer` is hidden from the result, like with Layer.provide,
+ * and the derived service has the same scope.
+ * @example
+ * const UrlLive = Layer.map(ConfigLive, UrlTag, (config) => config.databaseUrl)
+ */
+export function map<Id, In, T, MId>(
+  layer: Layer<Id, In>,
+  tag: Tag<T, MId>,
+  fn: (service: ServiceType<Id>) => T,
+): Layer<MId, In> {
+  const impl = toLayerImpl(layer as Layer)
+
+  const graph = buildGraph(impl)
+  const exposed = [...graph.nodes.keys()].filter(
+    (key) => !graph.hidden.has(key),
+  )
+  if (exposed.length !== 1) {
+    throw new LayerMapError(exposed.map((key) => graph.nodes.get(key)!))
+  }
+
+  const [key] = exposed
+  const derived = new LayerImpl(
+    'factory',
+    tag,
+    undefined,
+    [graph.nodes.get(key)!],
+    fn as (...deps: unknown[]) => unknown,
+    { scope: getScope(graph.layerMap.get(key)!) },
+    undefined,
+    undefined,
+  )
+  return createProvidedLayer('provide', derived, layer as Layer)
+}
+
+/**
+ * Check a layer without creating a container
+ *
+ * Returns every error `createContainer` could throw for the layer, or an empty
+ * array when it is valid.
+ */
+export function validate(layer: Layer<Any, Any>): Error[] {
+  const impl = toLayerImpl(layer)
+  return validateGraph(buildGraph(impl))
+}
+
+/**
+ * Describe the services of a layer and their dependencies
+ *
+ * The layer does not need to be valid: missing services are left out and
+ * cycles are kept.
+ * @example
+ * writeFileSync('services.mmd', toMermaid(Layer.graph(AppLive)))
+ */
+export function graph(layer: Layer<Any, Any>): ServiceGraph {
+  return describeGraph(buildGraph(toLayerImpl(layer)))
+}
@@ -0,0 +1,154 @@
+import type { ConfigIssue } from './errors.ts'
+import { ConfigError } from './errors.ts'
+import type { Layer } from './layer.ts'
+import { LayerImpl } from './layer-impl.ts'
+import type { Tag } from './types.ts'
+
+/**
+ * The part of a Standard Schema used by Layer.config, so that schemas of zod,
+ * valibot and other compatible libraries can be passed as is
+ * @see https://standardschema.dev
+ */
+export interface StandardSchema<Output = unknown> {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown,
+    ) => StandardResult<Output> | Promise<StandardResult<Output>>
+    readonly types?: { readonly input: unknown; readonly output: Output }
+  }
+}
+
+/**
+ * Result of validating a value against a Standard Schema
+ */
+export type StandardResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | {
+      readonly issues: readonly {
+        readonly message: string
+        readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[]
+      }[]
+    }
+
+/**
+ * Type of the values a Standard Schema validates
+ */
+export type InferOutput<S extends StandardSchema> = NonNullable<
+  S['~standard']['types']
+>['output']
+
+/**
+ * Where Layer.config reads raw configuration values from
+ */
+export interface ConfigSource {
+  load(): unknown
+}
+
+/**
+ * Read environment variables, e.g. `DATABASE_URL`
+ *
+ * With a prefix, only variables starting with it are read, and the prefix is
+ * removed from their names.
+ */
+function env(
+  options: { prefix?: string; env?: Record<string, string | undefined> } = {},
+): ConfigSource {
+  const { prefix = '' } = options
+  return {
+    load: () => {
+      const values: Record<string, string | undefined> = {}
+      for (const [name, value] of Object.entries(options.env ?? process.env)) {
+        if (name.startsWith(prefix)) {
+          values[name.slice(prefix.length)] = value
+        }
+      }
+      return values
+    },
+  }
+}
+
+/**
+ * Read a JSON file
+ *
+ * `node:fs` is only loaded when the file is read, so that the library still
+ * loads where it is not available.
+ */
+function file(path: string): ConfigSource {
+  return {
+    load: () => {
+      const { readFileSync } = process.getBuiltinModule('node:fs')
+      return JSON.parse(readFileSync(path, 'utf8')) as unknown
+    },
+  }
+}
+
+/**
+ * Read values held in memory, e.g. in tests
+ */
+function memory(values: Record<string, unknown>): ConfigSource {
+  return { load: () => values }
+}
+
+/**
+ * Built-in configuration sources
+ */
+export const ConfigSource = { env, file, memory }
+
+/**
+ * Provide a configuration read from `source` and validated with `schema`
+ *
+ * The configuration is loaded when the container is created. If it does not
+ * match the schema, creating the container fails with a ConfigError listing
+ * every missing or invalid key. Schemas must validate synchronously.
+ * @example
+ * const ConfigLive = Layer.config(ConfigTag, z.object({
+ *   DATABASE_URL: z.string(),
+ *   PORT: z.coerce.number(),
+ * }))
+ */
+export function config<S extends StandardSchema, Id>(
+  tag: Tag<InferOutput<S>, Id>,
+  schema: S,
+  source: ConfigSource = env(),
+): Layer<Id> {
+  return new LayerImpl<Id>(
+    'factory',
+    tag,
+    undefined,
+    [],
+    () => loadConfig(tag, schema, source),
+    { eager: true },
+    undefined,
+    undefined,
+  )
+}
+
+function loadConfig(
+  tag: Tag<unknown>,
+  schema: StandardSchema,
+  source: ConfigSource,
+): unknown {
+  const result = schema['~standard'].validate(source.load())
+  if (result instanceof Promise) {
+    throw new ConfigError(tag, [
+      { key: '', message: 'The schema must validate synchronously' },
+    ])
+  }
+
+  if (result.issues) {
+    throw new ConfigError(tag, result.issues.map(toConfigIssue))
+  }
+  return result.value
+}
+
+function toConfigIssue(issue: {
+  message: string
+  path?: readonly (PropertyKey | { readonly key: PropertyKey })[]
+}): ConfigIssue {
+  const keys = (issue.path ?? []).map((segment) =>
+    String(typeof segment === 'object' ? segment.key : segment),
+  )
+  return { key: keys.join('.'), message: issue.message }
+}
@@ -1,25 +1,39 @@
+import { releaseInstance } from './dispose.ts'
+import type { DependencyGraph, LayerImpl } from './graph.ts'
+import { buildGraph, getScope, validateGraph } from './graph.ts'
+import { createLifecycle } from './hooks.ts'
+import { initializeServices, initializeServicesSync } from './init.ts'
+import {
+  describeService,
+  isExposed,
+  listInstantiated,
+  listTags,
+} from './introspect.ts'
 import type { Layer } from './layer.ts'
 import { getLayerImpl } from './layer.ts'
-import type { Container, Scope, Tag } from './types.ts'
-
-interface ServiceDefinition {
-  tag: Tag<unknown>
-  instance: unknown
-  scope: Scope
-  dispose: ((instance: unknown) => void | Promise<void>) | undefined
-}
-
-interface DependencyGraph {
-  nodes: Map<string, Tag<unknown>>
-  edges: Map<string, Set<string>>
-  layerMap: Map<string, LayerImpl>
-  tagCounts: Map<string, number>
-}
-
-type LayerImpl = ReturnType<typeof getLayerImpl>
+import { createService, createServiceAsync } from './resolve.ts'
+import type { ScopeState } from './scope.ts'
+import {
+  assertNotDisposed,
+  createScopeState,
+  disposeScope,
+  disposeScopeSync,
+} from './scope.ts'
+import { describeGraph } from './serialize.ts'
+import type {
+  CheckRequirements,
+  Container,
+  ContainerOptions,
+  KeyedTag,
+  Tag,
+} from './types.ts'
 
 /**
  * Create a container from a typed layer
+ *
+ * Singletons of layers created with `eager: true` are created immediately;
+ * if any of them fails, the singletons created so far are disposed and an
+ * InitializationError is thrown.
  * @example
  * const container = createContainer(
  *   Layer.merge(DatabaseLive, UserServiceLive)
@@ -27,189 +41,188 @@ type LayerImpl = ReturnType<typeof getLayerImpl>
  * // container.get(UserServiceTag) - type-safe!
  * // container.get(DatabaseTag) - type-safe!
  */
-export function createContainer<Services>(
-  layer: Layer<Services, unknown>,
+export function createContainer<Services, In = never>(
+  layer: Layer<Services, In> & CheckRequirements<In>,
+  options?: ContainerOptions,
 ): Container<Services>
 
-export function createContainer<Services>(
-  layer: Layer<Services, unknown>,
+export function createContainer<Services, In = never>(
+  layer: Layer<Services, In> & CheckRequirements<In>,
+  options?: ContainerOptions,
 ): Container<Services> {
-  const impl = getLayerImpl(layer as Layer)
-  const graph = buildGraph(impl)
-  topologicalSort(graph)
-
-  // Check for duplicates using tagCounts
-  const allowDuplicates = impl.isMerged() && impl.mergeOptions?.allowDuplicates
-  if (!allowDuplicates) {
-    const duplicates: string[] = []
-    for (const [name, count] of graph.tagCounts.entries()) {
-      if (count > 1) {
-        duplicates.push(name)
-      }
+  const state = createScopeState(
+    createGraph(layer as Layer),
+    createLifecycle(options),
+    undefined,
+  )
+  try {
+    initializeServicesSync(state, isEager)
+  } catch (error) {
+    // The caller never receives the container to dispose what was created
+    try {
+      disposeScopeSync(state)
+    } catch {
+      // The initialization error is the one to report
     }
-    if (duplicates.length > 0) {
-      throw new Error(
-        `Duplicate tag detected: ${duplicates.join(', ')}. Use { allowDuplicates: true } option to override.`,
-      )
+    throw error
+  }
+  return toContainer<Services>(state)
+}
+
+/**
+ * Create a container and resolve every asynchronous singleton
+ *
+ * Independent branches of the dependency graph are initialized concurrently.
+ * Once the returned promise resolves, `container.get` works for every
+ * singleton, including those provided by `Layer.effect` or having a `timeout`
+ * or `retry`. Eager singletons are
+ * then created in dependency order. If any singleton fails, the ones created
+ * so far are disposed before the promise rejects.
+ * @example
+ * const container = await createContainerAsync(
+ *   Layer.merge(DatabaseLive, UserServiceLive)
+ * )
+ * const userService = container.get(UserServiceTag)
+ */
+export async function createContainerAsync<Services, In = never>(
+  layer: Layer<Services, In> & CheckRequirements<In>,
+  options?: ContainerOptions,
+): Promise<Container<Services>> {
+  const state = createScopeState(
+    createGraph(layer as Layer),
+    createLifecycle(options),
+    undefined,
+  )
+
+  const initializations: Array<Promise<unknown>> = []
+  for (const [key, impl] of state.graph.layerMap.entries()) {
+    if (isAsynchronous(impl) && getScope(impl) === 'singleton') {
+      const tag = state.graph.nodes.get(key)!
+      initializations.push(createServiceAsync(tag, state))
     }
   }
 
-  const services = new Map<string, ServiceDefinition>()
+  try {
+    // Wait for every initialization, so that all of them are disposed
+    const results = await Promise.allSettled(initializations)
+    const failure = results.find((result) => result.status === 'rejected')
+    if (failure) {
+      throw failure.reason
+    }
+    await initializeServices(state, isEager)
+  } catch (error) {
+    // The caller never receives the container to dispose what was created
+    await disposeScope(state).catch(() => {})
+    throw error
+  }
+  return toContainer<Services>(state)
+}
 
-  return {
-    get<T extends Services>(tag: Tag<T>): T {
-      return createService(tag, services, graph) as T
-    },
+function isEager(impl: LayerImpl): boolean {
+  return impl.options?.eager === true
+}
 
-    async dispose(): Promise<void> {
-      const disposePromises: Array<Promise<void>> = []
-
-      for (const [, service] of services.entries()) {
-        if (service.dispose) {
-          const disposeFn = service.dispose
-          disposePromises.push(
-            Promise.resolve().then(async () => {
-              await disposeFn(service.instance)
-            }),
-          )
-        }
-      }
-
-      await Promise.all(disposePromises)
-      services.clear()
-    },
-  } as Container<Services>
+/**
+ * Whether a service can only be created asynchronously, because it is
+ * provided by Layer.effect or has a timeout or retry policy
+ */
+function isAsynchronous(impl: LayerImpl): boolean {
+  const { timeout, retry } = impl.options ?? {}
+  return impl.isEffect() || timeout !== undefined || retry !== undefined
 }
 
-function createService(
-  tag: Tag<unknown>,
-  services: Map<string, ServiceDefinition>,
-  graph: DependencyGraph,
-): unknown {
-  const existing = services.get(tag.name)
-  if (existing && existing.scope === 'singleton') {
-    return existing.instance
+function createGraph(layer: Layer): DependencyGraph {
+  const impl = getLayerImpl(layer)
+  const graph = buildGraph(impl)
+  const [error] = validateGraph(graph)
+  if (error) {
+    throw error
   }
 
-  const layer = graph.layerMap.get(tag.name)
-  if (!layer) {
-    throw new Error(`Service not found: ${tag.name}`)
-  }
+  return graph
+}
 
-  const impl = layer
+function toTag(
+  tag: Tag<unknown> | KeyedTag<unknown, string>,
+  key: string | undefined,
+): Tag<unknown> {
+  return key === undefined
+    ? (tag as Tag<unknown>)
+    : (tag as KeyedTag<unknown, string>).of(key)
+}
 
-  let instance: unknown
-  let scope: Scope = 'singleton'
-  let dispose: ((instance: unknown) => void | Promise<void>) | undefined
+function toContainer<Services>(scope: ScopeState): Container<Services> {
+  return {
+    get(tag: Tag<unknown> | KeyedTag<unknown, string>, key?: string) {
+      const resolved = toTag(tag, key)
+      assertNotDisposed(scope, resolved)
+      return createService(resolved, scope)
+    },
 
-  if (impl.isValue()) {
-    instance = impl.value
-    scope = 'singleton'
-  } else {
-    // impl must be factory due to buildGraph filtering
-    const dependencies = impl.dependencies.map((depTag) =>
-      createService(depTag, services, graph),
-    )
+    async getAsync(
+      tag: Tag<unknown> | KeyedTag<unknown, string>,
+      key?: string,
+    ) {
+      const resolved = toTag(tag, key)
+      assertNotDisposed(scope, resolved)
+      return createServiceAsync(resolved, scope)
+    },
 
-    instance = impl.factory!(...dependencies)
+    ...toIntrospection(scope),
 
-    scope = impl.options?.scope || 'singleton'
-    dispose = impl.options?.dispose
-  }
+    async init(): Promise<void> {
+      assertNotDisposed(scope)
+      return initializeServices(scope, () => true)
+    },
 
-  services.set(tag.name, { tag, instance, scope, dispose })
+    graph() {
+      return describeGraph(scope.graph)
+    },
 
-  return instance
-}
+    createScope(): Container<Services> {
+      assertNotDisposed(scope)
+      return toContainer<Services>(
+        createScopeState(scope.graph, scope.lifecycle, scope),
+      )
+    },
 
-function buildGraph(layer: LayerImpl): DependencyGraph {
-  const graph: DependencyGraph = {
-    nodes: new Map(),
-    edges: new Map(),
-    layerMap: new Map(),
-    tagCounts: new Map(),
-  }
+    release(instance: unknown): Promise<void> {
+      return releaseInstance(scope.services, instance, scope.lifecycle)
+    },
 
-  function collectLayers(impl: LayerImpl) {
-    if (impl.isMerged()) {
-      const layers = impl.layers
-      for (const child of layers) {
-        collectLayers(child)
-      }
-    } else if (impl.isValue()) {
-      const tag = impl.tag
-
-      graph.nodes.set(tag.name, tag)
-      graph.layerMap.set(tag.name, impl)
-
-      incrementTagCount(tag.name)
-    } else {
-      // impl.isFactory() is always true here
-      const tag = impl.tag!
-      const dependencies = impl.dependencies
-
-      graph.nodes.set(tag.name, tag)
-      graph.layerMap.set(tag.name, impl)
-
-      incrementTagCount(tag.name)
-
-      if (dependencies.length > 0) {
-        const deps = new Set<string>()
-        for (const dep of dependencies) {
-          deps.add(dep.name)
-        }
-        graph.edges.set(tag.name, deps)
-      }
-    }
-  }
+    dispose(): Promise<void> {
+      return disposeScope(scope)
+    },
 
-  function incrementTagCount(tagName: string): void {
-    const currentCount = graph.tagCounts.get(tagName) || 0
-    graph.tagCounts.set(tagName, currentCount + 1)
-  }
+    [Symbol.asyncDispose](): Promise<void> {
+      return disposeScope(scope)
+    },
 
-  collectLayers(layer)
-  return graph
+    [Symbol.dispose](): void {
+      disposeScopeSync(scope)
+    },
+  } as Container<Services>
 }
 
-function topologicalSort(graph: DependencyGraph): string[] {
-  const visited = new Set<string>()
-  const temp = new Set<string>()
-  const order: string[] = []
-
-  function visit(nodeName: string) {
-    if (temp.has(nodeName)) {
-      throw new Error(`Circular dependency detected: ${nodeName}`)
-    }
-    if (visited.has(nodeName)) {
-      return
-    }
-
-    temp.add(nodeName)
+/**
+ * Container methods listing and describing its services
+ */
+function toIntrospection(scope: ScopeState) {
+  return {
+    has(tag: Tag<unknown> | KeyedTag<unknown, string>, key?: string) {
+      return isExposed(scope, toTag(tag, key))
+    },
 
-    const deps = graph.edges.get(nodeName)
-    if (deps) {
-      for (const dep of deps) {
-        visit(dep)
-      }
-    }
+    tags() {
+      return listTags(scope)
+    },
 
-    temp.delete(nodeName)
-    visited.add(nodeName)
-    order.push(nodeName)
-  }
+    describe(tag: Tag<unknown> | KeyedTag<unknown, string>, key?: string) {
+      return describeService(scope, toTag(tag, key))
+    },
 
-  function visitAll(): void {
-    for (const nodeName of graph.nodes.keys()) {
-      if (!visited.has(nodeName)) {
-        visit(nodeName)
-      } else {
-        // Already visited during recursion
-      }
-    }
+    instantiated() {
+      return listInstantiated(scope)
+    },
   }
-
-  visitAll()
-
-  return order
 }
@@ -0,0 +1,125 @@
+import type { DependencyGraph } from './graph.ts'
+import type { Tag } from './types.ts'
+
+/**
+ * Find every elementary cycle of the graph, e.g. both `A -> B -> C -> A` and
+ * `A -> C -> A` when A depends on B and C
+ *
+ * Each cycle starts and ends with its earliest node in graph order. Cycles are
+ * searched within strongly connected components (Tarjan's algorithm) and
+ * enumerated with Johnson's algorithm.
+ */
+export function findCycles(graph: DependencyGraph): Tag<unknown>[][] {
+  const keys = [...graph.nodes.keys()]
+  const cycles: symbol[][] = []
+
+  for (const [index, start] of keys.entries()) {
+    // Cycles through earlier nodes were found when starting from them
+    const component = findComponent(graph, start, new Set(keys.slice(index)))
+    cycles.push(...findCyclesFrom(graph, start, component))
+  }
+
+  return cycles.map((cycle) => cycle.map((key) => graph.nodes.get(key)!))
+}
+
+/**
+ * Find the strongly connected component of `start` in the subgraph made of
+ * `keys`
+ */
+function findComponent(
+  graph: DependencyGraph,
+  start: symbol,
+  keys: Set<symbol>,
+): Set<symbol> {
+  const indexes = new Map<symbol, number>()
+  const lowLinks = new Map<symbol, number>()
+  const stack: symbol[] = []
+  let component = new Set<symbol>()
+
+  function connect(key: symbol): void {
+    indexes.set(key, indexes.size)
+    lowLinks.set(key, indexes.get(key)!)
+    stack.push(key)
+
+    for (const dep of graph.edges.get(key)!) {
+      if (!keys.has(dep)) {
+        continue
+      }
+      if (!indexes.has(dep)) {
+        connect(dep)
+        lowLinks.set(key, Math.min(lowLinks.get(key)!, lowLinks.get(dep)!))
+      } else if (stack.includes(dep)) {
+        lowLinks.set(key, Math.min(lowLinks.get(key)!, indexes.get(dep)!))
+      }
+    }
+
+    // `key` is the root of a component, made of the keys above it
+    if (lowLinks.get(key) === indexes.get(key)) {
+      const members = stack.splice(stack.indexOf(key))
+      if (members.includes(start)) {
+        component = new Set(members)
+      }
+    }
+  }
+
+  connect(start)
+  return component
+}
+
+/**
+ * Johnson's search for the cycles through `start` within its component
+ *
+ * A node is blocked while it is on the path or cannot reach `start` without
+ * going through the path, so that no dead end is explored twice.
+ */
+function findCyclesFrom(
+  graph: DependencyGraph,
+  start: symbol,
+  component: Set<symbol>,
+): symbol[][] {
+  const blocked = new Set<symbol>()
+  // Nodes to unblock once the key is unblocked
+  const blockedBy = new Map<symbol, Set<symbol>>()
+  const path: symbol[] = []
+  const cycles: symbol[][] = []
+
+  function unblock(key: symbol): void {
+    blocked.delete(key)
+    for (const other of blockedBy.get(key) ?? []) {
+      if (blocked.has(other)) {
+        unblock(other)
+      }
+    }
+    blockedBy.delete(key)
+  }
+
+  function circuit(key: symbol): boolean {
+    const deps = [...graph.edges.get(key)!].filter((dep) => component.has(dep))
+    let found = false
+    path.push(key)
+    blocked.add(key)
+
+    for (const dep of deps) {
+      if (dep === start) {
+        cycles.push([...path, start])
+        found = true
+      } else if (!blocked.has(dep) && circuit(dep)) {
+        found = true
+      }
+    }
+
+    if (found) {
+      unblock(key)
+    } else {
+      for (const dep of deps) {
+        const others = blockedBy.get(dep) ?? new Set()
+        blockedBy.set(dep, others.add(key))
+      }
+    }
+    path.pop()
+    return found
+  }
+
+  circuit(start)
+  return cycles
+}
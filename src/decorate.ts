@@ -0,0 +1,118 @@
+import type { DependencyGraph } from './graph.ts'
+import { getScope, setEdges } from './graph.ts'
+import type { Layer } from './layer.ts'
+import { LayerImpl } from './layer-impl.ts'
+import { tag as createTag } from './tag.ts'
+import type {
+  Dependency,
+  ExtractTypes,
+  Scope,
+  Tag,
+  TagsToUnion,
+} from './types.ts'
+
+/**
+ * Wrap the service of a tag provided by another layer (no dependencies)
+ * @example
+ * const CachedRepositoryLive = Layer.decorate(RepositoryTag, (inner) =>
+ *   withCache(inner),
+ * )
+ */
+export function decorate<T, Id>(
+  tag: Tag<T, Id>,
+  decorator: (inner: T) => T,
+): Layer<never, Id>
+
+/**
+ * Wrap the service of a tag provided by another layer (with dependencies)
+ *
+ * The wrapped implementation keeps its scope and its disposer. Decorators of
+ * the same tag apply in merge order, the last one outermost.
+ * @example
+ * const App = Layer.merge(
+ *   RepositoryLive,
+ *   Layer.decorate(RepositoryTag, [MetricsTag], (inner, metrics) =>
+ *     withMetrics(inner, metrics),
+ *   ),
+ * )
+ */
+export function decorate<T, Id, const D extends readonly Dependency[]>(
+  tag: Tag<T, Id>,
+  dependencies: D,
+  decorator: (inner: T, ...deps: ExtractTypes<D>) => T,
+): Layer<never, Id | TagsToUnion<D>>
+
+export function decorate<T>(
+  tag: Tag<T>,
+  dependenciesOrDecorator: Dependency[] | ((inner: T) => T),
+  decorator?: (inner: T, ...deps: unknown[]) => T,
+): Layer<never, T> {
+  const [dependencies, fn] =
+    typeof dependenciesOrDecorator === 'function'
+      ? [[], dependenciesOrDecorator]
+      : [dependenciesOrDecorator, decorator!]
+
+  return new LayerImpl<never, T>(
+    'decorate',
+    tag,
+    undefined,
+    dependencies,
+    fn as (...deps: unknown[]) => unknown,
+    undefined,
+    undefined,
+    undefined,
+  )
+}
+
+/**
+ * Wrap the services of decorated tags, the last decorator outermost
+ *
+ * The decorated implementation moves to a hidden tag of its own, so that it is
+ * still created, cached and disposed as before. Decorators of a tag nothing
+ * provides depend on a tag missing from the graph.
+ */
+export function addDecorators(
+  graph: DependencyGraph,
+  decorators: readonly (LayerImpl<unknown, unknown> & { tag: Tag<unknown> })[],
+): void {
+  for (const decorator of decorators) {
+    const { key } = decorator.tag
+    const inner = createTag<unknown>(decorator.tag.name)
+    const impl = graph.layerMap.get(key)
+    if (impl) {
+      graph.nodes.set(inner.key, inner)
+      graph.layerMap.set(inner.key, impl)
+      graph.edges.set(inner.key, graph.edges.get(key)!)
+      if (graph.collectors.delete(key)) {
+        graph.collectors.add(inner.key)
+      }
+    }
+
+    const scope = impl ? getScope(impl) : 'singleton'
+    const layer = createDecoratedLayer(decorator, inner, scope)
+    graph.nodes.set(key, decorator.tag)
+    graph.layerMap.set(key, layer)
+    setEdges(graph, key, layer.dependencies)
+  }
+}
+
+/**
+ * Create the layer that wraps the service of `inner`, the tag the decorated
+ * implementation was moved to
+ */
+function createDecoratedLayer(
+  decorator: LayerImpl<unknown, unknown> & { tag: Tag<unknown> },
+  inner: Tag<unknown>,
+  scope: Scope,
+): LayerImpl {
+  return new LayerImpl(
+    'decorate',
+    decorator.tag,
+    undefined,
+    [inner, ...decorator.dependencies],
+    decorator.factory,
+    { scope },
+    undefined,
+    undefined,
+  )
+}
@@ -0,0 +1,48 @@
+import type { Dependency, Lazy, Optional, Tag } from './types.ts'
+
+/**
+ * Depend on a service only if the container provides it
+ *
+ * The factory receives `undefined` when the service is not provided, and the
+ * service does not count as a requirement of the layer.
+ *
+ * @example
+ * ```ts
+ * const ApiLive = Layer.factory(ApiTag, [optional(CacheTag)], (cache) => ...)
+ * ```
+ */
+export function optional<T, Id>(tag: Tag<T, Id>): Optional<T, Id> {
+  return { _dependency: 'optional', tag }
+}
+
+/**
+ * Depend on a service without creating it before the factory runs
+ *
+ * The factory receives a function that resolves the service when called.
+ * Lazy dependencies are not part of the dependency order, so they can break
+ * cycles between services. Asynchronous services must be created before the
+ * function is called, e.g. with `createContainerAsync()`.
+ *
+ * @example
+ * ```ts
+ * const ParentLive = Layer.factory(ParentTag, [lazy(ChildTag)], (getChild) => ...)
+ * ```
+ */
+export function lazy<T, Id>(tag: Tag<T, Id>): Lazy<T, Id> {
+  return { _dependency: 'lazy', tag }
+}
+
+/**
+ * Get the tag of a dependency, unwrapping optional() and lazy()
+ */
+export function getDependencyTag(dependency: Dependency): Tag<unknown> {
+  return '_dependency' in dependency ? dependency.tag : dependency
+}
+
+export function isOptional(dependency: Dependency): boolean {
+  return '_dependency' in dependency && dependency._dependency === 'optional'
+}
+
+export function isLazy(dependency: Dependency): boolean {
+  return '_dependency' in dependency && dependency._dependency === 'lazy'
+}
@@ -0,0 +1,289 @@
+import type { DisposalFailure } from './errors.ts'
+import { AsyncServiceError, ReleaseError } from './errors.ts'
+import type { DependencyGraph } from './graph.ts'
+import type { Lifecycle } from './hooks.ts'
+import { getPublicTag } from './namespace.ts'
+import { withTimeout } from './retry.ts'
+import { getSpanAttributes, traced } from './tracing.ts'
+import type { Scope, Tag } from './types.ts'
+
+export type Disposer = (instance: unknown) => void | Promise<void>
+
+export interface ServiceInstance {
+  value: unknown
+  /** Computed per instance, since only some may implement Symbol.dispose */
+  dispose: Disposer | undefined
+}
+
+export interface ServiceDefinition {
+  tag: Tag<unknown>
+  /**
+   * Every live instance: one for singletons, each disposable one created for
+   * transients
+   */
+  instances: ServiceInstance[]
+  scope: Scope
+  /** Milliseconds an asynchronous disposal may take, if limited */
+  disposeTimeout: number | undefined
+}
+
+/**
+ * Dispose services in reverse topological order
+ *
+ * A service is disposed only after every instantiated service depending on it
+ * has been disposed. Services that share no edge are disposed concurrently.
+ * Every disposer runs even if others fail, or if the onDispose hook throws.
+ * Resolves to the failures once all of them have settled.
+ */
+export async function disposeServices(
+  services: Map<symbol, ServiceDefinition>,
+  graph: DependencyGraph,
+  lifecycle: Lifecycle,
+): Promise<DisposalFailure[]> {
+  const dependents = collectDependents(services, graph)
+  const disposals = new Map<symbol, Promise<void>>()
+  const failures: DisposalFailure[] = []
+
+  function disposeService(key: symbol): Promise<void> {
+    const existing = disposals.get(key)
+    if (existing) {
+      return existing
+    }
+
+    const service = services.get(key)!
+    const disposal = Promise.all(
+      dependents.get(key)!.map((dependent) => disposeService(dependent)),
+    ).then(async () => {
+      await Promise.all(
+        service.instances.map((instance) =>
+          disposeInstance(lifecycle, service, instance, failures),
+        ),
+      )
+    })
+
+    disposals.set(key, disposal)
+    return disposal
+  }
+
+  // Failures report public tags, see notifyDisposed()
+  const tags = [...services.values()].map((service) =>
+    getPublicTag(service.tag),
+  )
+  await Promise.all([...services.keys()].map((key) => disposeService(key)))
+  services.clear()
+
+  // Report failures in creation order rather than settlement order
+  return failures.sort((a, b) => tags.indexOf(a.tag) - tags.indexOf(b.tag))
+}
+
+/**
+ * Dispose services synchronously, for `using` declarations
+ *
+ * Services are disposed one at a time, dependents before their dependencies.
+ * A disposer that returns a promise is reported as a failure, since its
+ * completion cannot be awaited here.
+ */
+export function disposeServicesSync(
+  services: Map<symbol, ServiceDefinition>,
+  graph: DependencyGraph,
+  lifecycle: Lifecycle,
+): DisposalFailure[] {
+  const dependents = collectDependents(services, graph)
+  const disposed = new Set<symbol>()
+  const failures: DisposalFailure[] = []
+
+  function disposeService(key: symbol): void {
+    if (disposed.has(key)) {
+      return
+    }
+    disposed.add(key)
+
+    for (const dependent of dependents.get(key)!) {
+      disposeService(dependent)
+    }
+
+    const service = services.get(key)!
+    for (const { value: instance, dispose } of service.instances) {
+      const disposeFn =
+        dispose === disposeResource ? disposeResourceSync : dispose
+      if (!disposeFn) {
+        continue
+      }
+
+      const start = performance.now()
+      let failure: unknown
+      try {
+        const result = runDisposer(lifecycle, service, disposeFn, instance)
+        if (result instanceof Promise) {
+          result.catch(() => {})
+          throw new AsyncServiceError(getPublicTag(service.tag), [], 'disposer')
+        }
+      } catch (error) {
+        failure = error
+        failures.push({ tag: getPublicTag(service.tag), error })
+      }
+      notifyDisposed(lifecycle, service, instance, start, failure, failures)
+    }
+  }
+
+  for (const key of services.keys()) {
+    disposeService(key)
+  }
+  services.clear()
+  return failures
+}
+
+/**
+ * Get the disposer for an instance implementing Symbol.asyncDispose or
+ * Symbol.dispose, used when a layer has no explicit dispose option
+ */
+export function getResourceDisposer(instance: unknown): Disposer | undefined {
+  if (
+    instance instanceof Object &&
+    (Symbol.asyncDispose in instance || Symbol.dispose in instance)
+  ) {
+    return disposeResource
+  }
+  return undefined
+}
+
+function disposeResource(instance: unknown): void | Promise<void> {
+  const resource = instance as Partial<AsyncDisposable & Disposable>
+  const asyncDispose = resource[Symbol.asyncDispose]
+  return asyncDispose
+    ? Promise.resolve(asyncDispose.call(resource))
+    : resource[Symbol.dispose]!()
+}
+
+function disposeResourceSync(instance: unknown): void | Promise<void> {
+  const resource = instance as Partial<AsyncDisposable & Disposable>
+  const dispose = resource[Symbol.dispose]
+  return dispose
+    ? dispose.call(resource)
+    : Promise.resolve(resource[Symbol.asyncDispose]!())
+}
+
+/**
+ * Dispose a single transient instance and stop tracking it
+ *
+ * Releasing an instance the container does not track has no effect.
+ */
+export async function releaseInstance(
+  services: Map<symbol, ServiceDefinition>,
+  instance: unknown,
+  lifecycle: Lifecycle,
+): Promise<void> {
+  for (const service of services.values()) {
+    const index = service.instances.findIndex(
+      (entry) => entry.value === instance,
+    )
+    if (index === -1) {
+      continue
+    }
+
+    if (service.scope !== 'transient') {
+      throw new ReleaseError(getPublicTag(service.tag), service.scope)
+    }
+
+    const [entry] = service.instances.splice(index, 1)
+    const failures: DisposalFailure[] = []
+    await disposeInstance(lifecycle, service, entry, failures)
+    if (failures.length > 0) {
+      throw failures[0].error
+    }
+    return
+  }
+}
+
+/**
+ * Await a disposer for at most the service's `disposeTimeout`, adding its
+ * failure to `failures` instead of rejecting
+ */
+async function disposeInstance(
+  lifecycle: Lifecycle,
+  service: ServiceDefinition,
+  { value: instance, dispose }: ServiceInstance,
+  failures: DisposalFailure[],
+): Promise<void> {
+  if (!dispose) {
+    return
+  }
+
+  const tag = getPublicTag(service.tag)
+  const start = performance.now()
+  let failure: unknown
+  try {
+    await withTimeout(
+      Promise.resolve(runDisposer(lifecycle, service, dispose, instance)),
+      tag,
+      service.disposeTimeout,
+    )
+  } catch (error) {
+    failure = error
+    failures.push({ tag, error })
+  }
+  notifyDisposed(lifecycle, service, instance, start, failure, failures)
+}
+
+/**
+ * Call a disposer, in a span when the container has a tracer
+ */
+function runDisposer(
+  lifecycle: Lifecycle,
+  service: ServiceDefinition,
+  disposeFn: Disposer,
+  instance: unknown,
+): void | Promise<void> {
+  return traced(
+    lifecycle.tracer,
+    `dispose ${service.tag.name}`,
+    getSpanAttributes(service.tag, service.scope),
+    () => disposeFn(instance),
+  )
+}
+
+/**
+ * Report a disposal to the onDispose hook
+ *
+ * An error thrown by the hook is added to `failures`, so that it does not stop
+ * other services from being disposed.
+ */
+function notifyDisposed(
+  lifecycle: Lifecycle,
+  service: ServiceDefinition,
+  instance: unknown,
+  start: number,
+  error: unknown,
+  failures: DisposalFailure[],
+): void {
+  try {
+    lifecycle.hooks.onDispose?.({
+      tag: getPublicTag(service.tag),
+      scope: service.scope,
+      instance,
+      duration: performance.now() - start,
+      error,
+    })
+  } catch (hookError) {
+    failures.push({ tag: getPublicTag(service.tag), error: hookError })
+  }
+}
+
+function collectDependents(
+  services: Map<symbol, ServiceDefinition>,
+  graph: DependencyGraph,
+): Map<symbol, symbol[]> {
+  const dependents = new Map<symbol, symbol[]>()
+  for (const key of services.keys()) {
+    dependents.set(key, [])
+  }
+
+  for (const key of services.keys()) {
+    // Dependencies owned by a parent scope are disposed with that scope
+    for (const dep of graph.edges.get(key)!) {
+      dependents.get(dep)?.push(key)
+    }
+  }
+
+  return dependents
+}
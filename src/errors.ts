@@ -0,0 +1,326 @@
+import type { Scope, Tag } from './types.ts'
+
+/**
+ * Format a resolution path, e.g. `App -> UserService -> Database`
+ */
+export function formatPath(path: readonly Tag<unknown>[]): string {
+  return path.map((tag) => tag.name).join(' -> ')
+}
+
+/**
+ * Thrown when a service is not provided by the container
+ *
+ * `path` is the resolution path that led to the missing service, ending with
+ * its tag. When the container is created with several missing services,
+ * `paths` lists all of them and `tag`/`path` describe the first one.
+ */
+export class ServiceNotFoundError extends Error {
+  readonly tag: Tag<unknown>
+  readonly path: readonly Tag<unknown>[]
+  readonly paths: readonly (readonly Tag<unknown>[])[]
+
+  constructor(paths: readonly (readonly Tag<unknown>[])[]) {
+    const described = paths.map((path) =>
+      path.length > 1
+        ? `${path[path.length - 1].name} (${formatPath(path)})`
+        : path[0].name,
+    )
+    super(`Service not found: ${described.join(', ')}`)
+    this.name = 'ServiceNotFoundError'
+    this.path = paths[0]!
+    this.tag = this.path[this.path.length - 1]!
+    this.paths = paths
+  }
+}
+
+/**
+ * Thrown when the dependency graph contains cycles
+ *
+ * Each cycle starts and ends with the same tag, e.g. `A -> B -> C -> A`.
+ * `cycles` lists every cycle found and `tag`/`path` describe the first one.
+ */
+export class CircularDependencyError extends Error {
+  readonly tag: Tag<unknown>
+  readonly path: readonly Tag<unknown>[]
+  readonly cycles: readonly (readonly Tag<unknown>[])[]
+
+  constructor(cycles: readonly (readonly Tag<unknown>[])[]) {
+    super(`Circular dependency detected: ${cycles.map(formatPath).join(', ')}`)
+    this.name = 'CircularDependencyError'
+    this.path = cycles[0]!
+    this.tag = this.path[0]!
+    this.cycles = cycles
+  }
+}
+
+/**
+ * Thrown when merged layers provide the same tag more than once
+ * without allowing duplicates
+ */
+export class DuplicateTagError extends Error {
+  readonly tag: Tag<unknown>
+  readonly tags: readonly Tag<unknown>[]
+
+  constructor(tags: readonly Tag<unknown>[]) {
+    const names = tags.map((tag) => tag.name)
+    super(
+      `Duplicate tag detected: ${names.join(', ')}. Use the duplicates option of Layer.merge to allow it.`,
+    )
+    this.name = 'DuplicateTagError'
+    this.tag = tags[0]!
+    this.tags = tags
+  }
+}
+
+/**
+ * Thrown when a singleton depends on a scoped service, directly or through
+ * transient services
+ *
+ * `tag` is the singleton and `scopedTag` the scoped service it would keep
+ * alive beyond its scope.
+ */
+export class ScopeViolationError extends Error {
+  readonly tag: Tag<unknown>
+  readonly scopedTag: Tag<unknown>
+
+  constructor(tag: Tag<unknown>, scopedTag: Tag<unknown>) {
+    super(
+      `Singleton service ${tag.name} cannot depend on scoped service ${scopedTag.name}`,
+    )
+    this.name = 'ScopeViolationError'
+    this.tag = tag
+    this.scopedTag = scopedTag
+  }
+}
+
+/**
+ * Thrown by Layer.override when the replacement provides a service that the
+ * base layer does not
+ */
+export class OverrideError extends Error {
+  readonly tag: Tag<unknown>
+
+  constructor(tag: Tag<unknown>) {
+    super(
+      `Cannot override service: ${tag.name} is not provided by the base layer`,
+    )
+    this.name = 'OverrideError'
+    this.tag = tag
+  }
+}
+
+/**
+ * Thrown when a factory throws or rejects
+ *
+ * The original error is available as `cause`.
+ */
+export class FactoryError extends Error {
+  readonly tag: Tag<unknown>
+  readonly path: readonly Tag<unknown>[]
+
+  constructor(path: readonly Tag<unknown>[], cause: unknown) {
+    const tag = path[path.length - 1]
+    const reason = cause instanceof Error ? cause.message : String(cause)
+    super(
+      `Failed to create service: ${tag.name} (${formatPath(path)}): ${reason}`,
+      { cause },
+    )
+    this.name = 'FactoryError'
+    this.tag = tag
+    this.path = path
+  }
+}
+
+/**
+ * Why a service cannot be used synchronously, see AsyncServiceError
+ */
+export type AsyncServiceReason = 'effect' | 'pending' | 'policy' | 'disposer'
+
+const asyncServiceMessages: Record<
+  AsyncServiceReason,
+  (name: string) => string
+> = {
+  effect: (name) =>
+    `Service is asynchronous: ${name}. Use getAsync() or createContainerAsync() to resolve it.`,
+  pending: (name) =>
+    `Service is being created asynchronously: ${name}. Await getAsync() before resolving it synchronously.`,
+  policy: (name) =>
+    `Service has a timeout or retry policy: ${name}. Use getAsync() or createContainerAsync() to resolve it.`,
+  disposer: (name) =>
+    `Service has an asynchronous disposer: ${name}. Use await using or container.dispose() instead.`,
+}
+
+/**
+ * Thrown when a service that needs to be awaited is used synchronously
+ *
+ * `reason` tells why: the service is provided by Layer.effect, getAsync() is
+ * still creating it, it has a `timeout` or `retry`, or its disposer returns
+ * a promise. `path` is the resolution path, empty for a disposer.
+ */
+export class AsyncServiceError extends Error {
+  readonly tag: Tag<unknown>
+  readonly path: readonly Tag<unknown>[]
+  readonly reason: AsyncServiceReason
+
+  constructor(
+    tag: Tag<unknown>,
+    path: readonly Tag<unknown>[],
+    reason: AsyncServiceReason,
+  ) {
+    super(asyncServiceMessages[reason](tag.name))
+    this.name = 'AsyncServiceError'
+    this.tag = tag
+    this.path = path
+    this.reason = reason
+  }
+}
+
+/**
+ * Thrown when a disposed container or scope is used
+ *
+ * `tag` is the service that was requested, if any.
+ */
+export class ContainerDisposedError extends Error {
+  readonly tag: Tag<unknown> | undefined
+
+  constructor(tag?: Tag<unknown>) {
+    super(
+      tag
+        ? `Container has been disposed: cannot resolve ${tag.name}`
+        : 'Container has been disposed',
+    )
+    this.name = 'ContainerDisposedError'
+    this.tag = tag
+  }
+}
+
+/**
+ * Thrown by `container.release()` for an instance that is not transient
+ */
+export class ReleaseError extends Error {
+  readonly tag: Tag<unknown>
+  readonly scope: Scope
+
+  constructor(tag: Tag<unknown>, scope: Scope) {
+    super(
+      `Cannot release ${scope} service: ${tag.name}. Only transient instances can be released.`,
+    )
+    this.name = 'ReleaseError'
+    this.tag = tag
+    this.scope = scope
+  }
+}
+
+/**
+ * Thrown by Layer.map when the layer does not provide exactly one service
+ *
+ * `tags` lists the services the layer provides.
+ */
+export class LayerMapError extends Error {
+  readonly tags: readonly Tag<unknown>[]
+
+  constructor(tags: readonly Tag<unknown>[]) {
+    super(`Layer.map expects a layer providing one service, got ${tags.length}`)
+    this.name = 'LayerMapError'
+    this.tags = tags
+  }
+}
+
+/**
+ * A configuration key that is missing or invalid
+ * `key` is the dotted path of the value, or empty for the whole configuration
+ */
+export interface ConfigIssue {
+  key: string
+  message: string
+}
+
+/**
+ * Thrown when the configuration loaded by Layer.config does not match its
+ * schema, listing every issue found
+ */
+export class ConfigError extends Error {
+  readonly tag: Tag<unknown>
+  readonly issues: readonly ConfigIssue[]
+
+  constructor(tag: Tag<unknown>, issues: readonly ConfigIssue[]) {
+    const described = issues.map((issue) =>
+      issue.key ? `${issue.key}: ${issue.message}` : issue.message,
+    )
+    super(`Invalid config: ${tag.name} (${described.join(', ')})`)
+    this.name = 'ConfigError'
+    this.tag = tag
+    this.issues = issues
+  }
+}
+
+/**
+ * Thrown when a factory or disposer does not settle within the `timeout` or
+ * `disposeTimeout` of its layer
+ */
+export class TimeoutError extends Error {
+  readonly tag: Tag<unknown>
+  readonly timeout: number
+
+  constructor(tag: Tag<unknown>, timeout: number) {
+    super(`${tag.name} timed out after ${timeout}ms`)
+    this.name = 'TimeoutError'
+    this.tag = tag
+    this.timeout = timeout
+  }
+}
+
+/**
+ * A dispose callback that failed, with the tag of its service
+ */
+export interface DisposalFailure {
+  tag: Tag<unknown>
+  error: unknown
+}
+
+/**
+ * Thrown by `container.dispose()` after every disposer has run
+ * if one or more of them failed
+ */
+export class DisposalError extends AggregateError {
+  readonly failures: readonly DisposalFailure[]
+
+  constructor(failures: readonly DisposalFailure[]) {
+    const tags = new Set(failures.map((failure) => failure.tag))
+    const names = [...tags].map((tag) => tag.name)
+    super(
+      failures.map((failure) => failure.error),
+      `Failed to dispose services: ${names.join(', ')}`,
+    )
+    this.name = 'DisposalError'
+    this.failures = failures
+  }
+}
+
+/**
+ * A service that failed to initialize, with the error it failed with
+ */
+export interface InitializationFailure {
+  tag: Tag<unknown>
+  error: unknown
+}
+
+/**
+ * Thrown by `container.init()` and by eager containers after every singleton
+ * has been tried if one or more of them failed
+ *
+ * Services depending on a failed service are not tried and not reported.
+ */
+export class InitializationError extends AggregateError {
+  readonly failures: readonly InitializationFailure[]
+
+  constructor(failures: readonly InitializationFailure[]) {
+    const names = failures.map((failure) => failure.tag.name)
+    super(
+      failures.map((failure) => failure.error),
+      `Failed to initialize services: ${names.join(', ')}`,
+    )
+    this.name = 'InitializationError'
+    this.failures = failures
+  }
+}
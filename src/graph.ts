@@ -0,0 +1,396 @@
+import { findCycles } from './cycles.ts'
+import { addDecorators } from './decorate.ts'
+import { getDependencyTag, isLazy, isOptional } from './dependency.ts'
+import {
+  CircularDependencyError,
+  DuplicateTagError,
+  ScopeViolationError,
+  ServiceNotFoundError,
+} from './errors.ts'
+import type { getLayerImpl } from './layer.ts'
+import { createCollectorLayer } from './layer-impl.ts'
+import type { Namespace } from './namespace.ts'
+import {
+  createNamespace,
+  getPublicPath,
+  getPublicTag,
+  listExposed,
+  rename,
+  renameLayer,
+} from './namespace.ts'
+import type { Dependency, DuplicatePolicy, Scope, Tag } from './types.ts'
+
+export type LayerImpl = ReturnType<typeof getLayerImpl>
+
+/**
+ * Dependency graph keyed by tag identity (`tag.key`)
+ */
+export interface DependencyGraph {
+  nodes: Map<symbol, Tag<unknown>>
+  edges: Map<symbol, Set<symbol>>
+  layerMap: Map<symbol, LayerImpl>
+  /** Tags provided more than once where the merge policy is 'error' */
+  duplicates: Set<symbol>
+  /** Tags provided only to other layers through Layer.provide */
+  hidden: Set<symbol>
+  /** Multi-binding tags, provided by collecting their contributions */
+  collectors: Set<symbol>
+}
+
+interface BuildState {
+  graph: DependencyGraph
+  // Visits of the composite layers enclosing the one being collected,
+  // outermost first. A layer used twice is visited twice.
+  ancestors: { layer: LayerImpl }[]
+  // Ancestors of the layer that currently provides each tag
+  providers: Map<symbol, { layer: LayerImpl }[]>
+  // Contribution tags of each multi-binding tag, in contribution order
+  contributions: Map<symbol, { tag: Tag<unknown>; keys: Set<symbol> }>
+  // Layer.decorate layers, in collection order
+  decorators: (LayerImpl & { tag: Tag<unknown> })[]
+  // Private tags of the services being collected, and of their dependencies
+  services: Namespace
+  dependencies: Namespace
+}
+
+export function buildGraph(layer: LayerImpl): DependencyGraph {
+  const graph: DependencyGraph = {
+    nodes: new Map(),
+    edges: new Map(),
+    layerMap: new Map(),
+    duplicates: new Set(),
+    hidden: new Set(),
+    collectors: new Set(),
+  }
+  const state: BuildState = {
+    graph,
+    ancestors: [],
+    providers: new Map(),
+    contributions: new Map(),
+    decorators: [],
+    services: new Map(),
+    dependencies: new Map(),
+  }
+
+  collectLayers(state, layer)
+  addCollectors(state)
+  addDecorators(graph, state.decorators)
+  hideUnexposed(graph, new Set(listExposed(layer).map((tag) => tag.key)))
+  return graph
+}
+
+function collectLayers(state: BuildState, impl: LayerImpl): void {
+  if (impl.isDecorator()) {
+    // A decorator wraps a dependency, which may be private
+    state.decorators.push(
+      renameLayer(impl, state.dependencies, state.dependencies),
+    )
+    return
+  }
+  if (!impl.layers) {
+    // impl.isValue(), impl.isFactory() or impl.isEffect() is always true here
+    collectService(state, renameLayer(impl, state.services, state.dependencies))
+    return
+  }
+
+  state.ancestors.push({ layer: impl })
+
+  if (impl.type === 'provide') {
+    collectProvided(state, impl.layers[0], impl.layers[1])
+  } else {
+    for (const child of impl.layers) {
+      collectLayers(state, child)
+    }
+  }
+  if (impl.isMulti()) {
+    const tag = rename(impl.tag, state.services)
+    addContribution(state, tag, impl.layers[0].tag!.key)
+  }
+
+  state.ancestors.pop()
+}
+
+/**
+ * Collect the layers of a Layer.provide, giving the services of the provider
+ * private tags that only the consumer and the provider itself depend on
+ */
+function collectProvided(
+  state: BuildState,
+  consumer: LayerImpl,
+  provider: LayerImpl,
+): void {
+  const { services, dependencies } = state
+  const namespace = createNamespace(dependencies, provider)
+
+  state.dependencies = namespace
+  collectLayers(state, consumer)
+  state.services = namespace
+  collectLayers(state, provider)
+
+  state.services = services
+  state.dependencies = dependencies
+}
+
+function collectService(state: BuildState, impl: LayerImpl): void {
+  const { graph } = state
+  const tag = impl.tag!
+
+  // The innermost layer enclosing both providers decides which one is used
+  const previous = state.providers.get(tag.key)
+  if (previous) {
+    const ancestor = findCommonAncestor(previous, state.ancestors)
+    const policy = getDuplicatePolicy(ancestor)
+    if (policy === 'first-wins') {
+      return
+    }
+    if (policy === 'error') {
+      graph.duplicates.add(tag.key)
+    }
+  }
+  state.providers.set(tag.key, [...state.ancestors])
+
+  graph.nodes.set(tag.key, tag)
+  graph.layerMap.set(tag.key, impl)
+  // A duplicate may replace another layer, whose edges no longer apply
+  setEdges(graph, tag.key, impl.dependencies)
+}
+
+export function setEdges(
+  graph: DependencyGraph,
+  key: symbol,
+  dependencies: readonly Dependency[],
+): void {
+  // Lazy dependencies are resolved on first use, after the factory ran
+  const deps = dependencies.filter((dep) => !isLazy(dep))
+  graph.edges.set(key, new Set(deps.map((dep) => getDependencyTag(dep).key)))
+}
+
+function addContribution(
+  state: BuildState,
+  tag: Tag<unknown>,
+  key: symbol,
+): void {
+  const entry = state.contributions.get(tag.key)
+  if (entry) {
+    entry.keys.add(key)
+  } else {
+    state.contributions.set(tag.key, { tag, keys: new Set([key]) })
+  }
+}
+
+/**
+ * Provide every multi-binding tag through a layer collecting its contributions
+ *
+ * The collector lives as long as its shortest-lived contribution.
+ */
+function addCollectors(state: BuildState): void {
+  const { graph } = state
+
+  for (const [key, { tag, keys }] of state.contributions) {
+    if (graph.nodes.has(key)) {
+      // Also provided by a regular layer
+      graph.duplicates.add(key)
+      continue
+    }
+
+    const contributions = [...keys].map((k) => graph.nodes.get(k)!)
+    const scopes = [...keys].map((k) => getScope(graph.layerMap.get(k)!))
+    const scope = scopes.includes('transient')
+      ? 'transient'
+      : scopes.includes('scoped')
+        ? 'scoped'
+        : 'singleton'
+
+    graph.nodes.set(key, tag)
+    graph.layerMap.set(key, createCollectorLayer(tag, contributions, scope))
+    graph.edges.set(key, new Set(keys))
+    graph.collectors.add(key)
+  }
+}
+
+function findCommonAncestor(
+  a: { layer: LayerImpl }[],
+  b: { layer: LayerImpl }[],
+): LayerImpl {
+  let depth = 0
+  while (depth < a.length && a[depth] === b[depth]) {
+    depth++
+  }
+  return a[depth - 1].layer
+}
+
+function getDuplicatePolicy(impl: LayerImpl): DuplicatePolicy {
+  if (impl.isOverride()) {
+    return 'last-wins'
+  }
+  const options = impl.mergeOptions
+  return (
+    options?.duplicates ?? (options?.allowDuplicates ? 'last-wins' : 'error')
+  )
+}
+
+function hideUnexposed(graph: DependencyGraph, exposed: Set<symbol>): void {
+  for (const key of graph.nodes.keys()) {
+    if (!exposed.has(key)) {
+      graph.hidden.add(key)
+    }
+  }
+}
+
+/**
+ * Collect every problem that prevents creating a container from a graph
+ *
+ * Missing services come first, then cycles, scope violations and duplicate
+ * tags, reported with the public tags of services private to a Layer.provide.
+ * An empty array means the graph is valid.
+ */
+export function validateGraph(graph: DependencyGraph): Error[] {
+  const { cycles } = topologicalSort(graph)
+
+  const errors = [
+    findMissingDependencies(graph),
+    cycles.length > 0
+      ? new CircularDependencyError(cycles.map(getPublicPath))
+      : undefined,
+    findScopeViolation(graph),
+    findDuplicates(graph),
+  ]
+
+  return errors.filter((error) => error !== undefined)
+}
+
+/**
+ * Check that every required dependency is a node of the graph
+ */
+function findMissingDependencies(
+  graph: DependencyGraph,
+): ServiceNotFoundError | undefined {
+  const missing: (readonly Tag<unknown>[])[] = []
+
+  for (const [key, impl] of graph.layerMap.entries()) {
+    for (const dep of impl.dependencies) {
+      const depTag = getDependencyTag(dep)
+      if (!isOptional(dep) && !graph.nodes.has(depTag.key)) {
+        missing.push(getPublicPath([graph.nodes.get(key)!, depTag]))
+      }
+    }
+  }
+
+  return missing.length > 0 ? new ServiceNotFoundError(missing) : undefined
+}
+
+/**
+ * Order the graph so that dependencies come before their dependents
+ *
+ * When the graph is not acyclic, every elementary cycle is reported, e.g.
+ * `A -> B -> C -> A`, instead of stopping at the first one.
+ */
+export function topologicalSort(graph: DependencyGraph): {
+  order: symbol[]
+  cycles: Tag<unknown>[][]
+} {
+  const visited = new Set<symbol>()
+  // Keys on the current search path
+  const temp = new Set<symbol>()
+  const order: symbol[] = []
+  let cyclic = false
+
+  function visit(nodeKey: symbol) {
+    if (temp.has(nodeKey)) {
+      cyclic = true
+      return
+    }
+    if (visited.has(nodeKey)) {
+      return
+    }
+
+    temp.add(nodeKey)
+
+    const deps = graph.edges.get(nodeKey)
+    if (deps) {
+      for (const dep of deps) {
+        visit(dep)
+      }
+    }
+
+    temp.delete(nodeKey)
+    visited.add(nodeKey)
+    order.push(nodeKey)
+  }
+
+  for (const nodeKey of graph.nodes.keys()) {
+    visit(nodeKey)
+  }
+
+  return { order, cycles: cyclic ? findCycles(graph) : [] }
+}
+
+/**
+ * Report tags provided more than once without a policy that allows it
+ */
+function findDuplicates(graph: DependencyGraph): DuplicateTagError | undefined {
+  const duplicates: Tag<unknown>[] = []
+  for (const key of graph.duplicates) {
+    duplicates.push(getPublicTag(graph.nodes.get(key)!))
+  }
+
+  return duplicates.length > 0 ? new DuplicateTagError(duplicates) : undefined
+}
+
+export function getScope(impl: LayerImpl): Scope {
+  return impl.options?.scope || 'singleton'
+}
+
+/**
+ * Find a singleton that would capture a scoped service
+ *
+ * Singletons live in the root container, so a scoped service reached through
+ * their dependencies, directly or via transient services, would outlive the
+ * scope it belongs to.
+ */
+function findScopeViolation(
+  graph: DependencyGraph,
+): ScopeViolationError | undefined {
+  for (const [key, impl] of graph.layerMap.entries()) {
+    if (getScope(impl) !== 'singleton') {
+      continue
+    }
+
+    const scoped = findScopedDependency(key, graph, new Set())
+    if (scoped) {
+      return new ScopeViolationError(
+        getPublicTag(graph.nodes.get(key)!),
+        getPublicTag(graph.nodes.get(scoped)!),
+      )
+    }
+  }
+
+  return undefined
+}
+
+function findScopedDependency(
+  nodeKey: symbol,
+  graph: DependencyGraph,
+  visited: Set<symbol>,
+): symbol | undefined {
+  for (const dep of graph.edges.get(nodeKey)!) {
+    const impl = graph.layerMap.get(dep)
+    if (!impl || visited.has(dep)) {
+      continue
+    }
+    visited.add(dep)
+
+    const scope = getScope(impl)
+    if (scope === 'scoped') {
+      return dep
+    }
+    if (scope === 'transient') {
+      const scoped = findScopedDependency(dep, graph, visited)
+      if (scoped) {
+        return scoped
+      }
+    }
+  }
+
+  return undefined
+}
@@ -0,0 +1,133 @@
+import { FactoryError } from './errors.ts'
+import type { Tracer } from './tracing.ts'
+import type {
+  ContainerHooks,
+  ContainerOptions,
+  Interceptor,
+  ResolutionContext,
+  Tag,
+} from './types.ts'
+
+/**
+ * Hooks, interceptors and tracer of a container, shared with its child scopes
+ */
+export interface Lifecycle {
+  hooks: ContainerHooks
+  interceptors: Map<symbol, Interceptor[]>
+  tracer: Tracer | undefined
+}
+
+export function createLifecycle(options: ContainerOptions = {}): Lifecycle {
+  const interceptors = new Map<symbol, Interceptor[]>()
+  for (const interceptor of options.interceptors ?? []) {
+    const key = interceptor.tag.key
+    interceptors.set(key, [...(interceptors.get(key) ?? []), interceptor])
+  }
+
+  return { hooks: options.hooks ?? {}, interceptors, tracer: options.tracer }
+}
+
+/**
+ * Wrap every instance of a service, e.g. with a proxy logging its calls
+ *
+ * The wrapped instance is the one injected into dependents, returned by the
+ * container and passed to the service's disposer.
+ * @example
+ * const container = createContainer(AppLive, {
+ *   interceptors: [intercept(UserRepositoryTag, withQueryLogging)],
+ * })
+ */
+export function intercept<T, Id>(
+  tag: Tag<T, Id>,
+  wrap: (instance: T, context: ResolutionContext) => T,
+): Interceptor {
+  return {
+    tag,
+    wrap: wrap as (instance: unknown, context: ResolutionContext) => unknown,
+  }
+}
+
+/**
+ * Create an instance with `create`, reporting it to the hooks and passing it
+ * through the interceptors of its tag
+ *
+ * If an interceptor or the onResolved hook throws, the instance is passed to
+ * `discard`, since the container never tracks it, and a FactoryError is thrown.
+ */
+export function observeCreation(
+  lifecycle: Lifecycle,
+  context: ResolutionContext,
+  create: () => unknown,
+  discard: (instance: unknown) => void,
+): unknown {
+  const { hooks } = lifecycle
+  hooks.onResolveStart?.(context)
+  const start = performance.now()
+
+  let instance: unknown
+  try {
+    instance = create()
+  } catch (error) {
+    hooks.onError?.({ ...context, error, duration: performance.now() - start })
+    throw error
+  }
+
+  return complete(lifecycle, context, instance, start, discard)
+}
+
+/**
+ * Create an instance with an asynchronous `create`, see observeCreation()
+ */
+export async function observeCreationAsync(
+  lifecycle: Lifecycle,
+  context: ResolutionContext,
+  create: () => Promise<unknown>,
+  discard: (instance: unknown) => void,
+): Promise<unknown> {
+  const { hooks } = lifecycle
+  hooks.onResolveStart?.(context)
+  const start = performance.now()
+
+  let instance: unknown
+  try {
+    instance = await create()
+  } catch (error) {
+    hooks.onError?.({ ...context, error, duration: performance.now() - start })
+    throw error
+  }
+
+  return complete(lifecycle, context, instance, start, discard)
+}
+
+function complete(
+  lifecycle: Lifecycle,
+  context: ResolutionContext,
+  created: unknown,
+  start: number,
+  discard: (instance: unknown) => void,
+): unknown {
+  const { hooks } = lifecycle
+  const interceptors = lifecycle.interceptors.get(context.tag.key) ?? []
+  let instance = created
+  try {
+    for (const interceptor of interceptors) {
+      instance = interceptor.wrap(instance, context)
+    }
+
+    hooks.onResolved?.({
+      ...context,
+      instance,
+      duration: performance.now() - start,
+    })
+  } catch (error) {
+    discard(instance)
+    const failure = new FactoryError(context.path, error)
+    hooks.onError?.({
+      ...context,
+      error: failure,
+      duration: performance.now() - start,
+    })
+    throw failure
+  }
+  return instance
+}
@@ -34,23 +34,82 @@
 
 // Type definitions
 export type {
+  CheckRequirements,
   Container,
+  ContainerHooks,
+  ContainerOptions,
+  Dependency,
+  DisposeContext,
+  DuplicatePolicy,
   GetIn,
   GetOut,
+  GraphEdge,
+  GraphNode,
+  Interceptor,
+  Keyed,
+  KeyedTag,
   LayerOptions,
+  Lazy,
   MergeIn,
   MergeOptions,
   MergeOut,
+  Optional,
+  ResolutionContext,
+  RetryOptions,
   Scope,
+  ServiceClass,
+  ServiceDescription,
+  ServiceGraph,
   Tag,
+  UnsatisfiedRequirements,
 } from './types.ts'
 
+// Errors
+export type {
+  AsyncServiceReason,
+  ConfigIssue,
+  DisposalFailure,
+  InitializationFailure,
+} from './errors.ts'
+export {
+  AsyncServiceError,
+  CircularDependencyError,
+  ConfigError,
+  ContainerDisposedError,
+  DisposalError,
+  DuplicateTagError,
+  FactoryError,
+  InitializationError,
+  LayerMapError,
+  OverrideError,
+  ReleaseError,
+  ScopeViolationError,
+  ServiceNotFoundError,
+  TimeoutError,
+} from './errors.ts'
+
 // Tag creation
 export { tag } from './tag.ts'
 
+// Dependency wrappers
+export { lazy, optional } from './dependency.ts'
+
+// Configuration
+export type { StandardSchema } from './config.ts'
+export { ConfigSource } from './config.ts'
+
+// Tracing
+export type { Span, SpanAttributes, Tracer } from './tracing.ts'
+
+// Interceptors
+export { intercept } from './hooks.ts'
+
+// Graph serializers
+export { toDot, toJson, toMermaid } from './serialize.ts'
+
 // Layer (type and namespace)
 export { Layer } from './layer.ts'
 export { getLayerImpl } from './layer.ts'
 
 // Container creation
-export { createContainer } from './container.ts'
+export { createContainer, createContainerAsync } from './container.ts'
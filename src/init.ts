@@ -0,0 +1,112 @@
+import type { InitializationFailure } from './errors.ts'
+import { ConfigError, InitializationError } from './errors.ts'
+import type { LayerImpl } from './graph.ts'
+import { getScope, topologicalSort } from './graph.ts'
+import { createService, createServiceAsync } from './resolve.ts'
+import type { ScopeState } from './scope.ts'
+
+/**
+ * Create the singletons selected by `filter`, dependencies first
+ *
+ * Every selected singleton is tried even if others fail. Services depending
+ * on a failed one are skipped, since they would fail with the same error.
+ * Failures are thrown together as an InitializationError, except for a single
+ * invalid configuration, whose ConfigError is thrown as is.
+ */
+export async function initializeServices(
+  scope: ScopeState,
+  filter: (impl: LayerImpl) => boolean,
+): Promise<void> {
+  const failed = new Set<symbol>()
+  const failures: InitializationFailure[] = []
+
+  for (const key of selectSingletons(scope, filter)) {
+    if (!dependsOnFailure(scope, key, failed)) {
+      const tag = scope.graph.nodes.get(key)!
+      try {
+        await createServiceAsync(tag, scope)
+      } catch (error) {
+        failed.add(key)
+        failures.push({ tag, error })
+      }
+    }
+  }
+
+  if (failures.length > 0) {
+    throw toInitializationError(failures)
+  }
+}
+
+/**
+ * Create the singletons selected by `filter` synchronously
+ * Fails for services provided by `Layer.effect`
+ */
+export function initializeServicesSync(
+  scope: ScopeState,
+  filter: (impl: LayerImpl) => boolean,
+): void {
+  const failed = new Set<symbol>()
+  const failures: InitializationFailure[] = []
+
+  for (const key of selectSingletons(scope, filter)) {
+    if (!dependsOnFailure(scope, key, failed)) {
+      const tag = scope.graph.nodes.get(key)!
+      try {
+        createService(tag, scope)
+      } catch (error) {
+        failed.add(key)
+        failures.push({ tag, error })
+      }
+    }
+  }
+
+  if (failures.length > 0) {
+    throw toInitializationError(failures)
+  }
+}
+
+/**
+ * Report invalid configurations first, since services cannot work without them
+ */
+function toInitializationError(
+  failures: readonly InitializationFailure[],
+): Error {
+  if (failures.length === 1 && failures[0].error instanceof ConfigError) {
+    return failures[0].error
+  }
+
+  const isConfig = (failure: InitializationFailure): boolean =>
+    failure.error instanceof ConfigError
+  return new InitializationError([
+    ...failures.filter(isConfig),
+    ...failures.filter((failure) => !isConfig(failure)),
+  ])
+}
+
+function selectSingletons(
+  scope: ScopeState,
+  filter: (impl: LayerImpl) => boolean,
+): symbol[] {
+  return topologicalSort(scope.graph).order.filter((key) => {
+    // Optional dependencies that are not provided have no layer
+    const impl = scope.graph.layerMap.get(key)
+    return impl !== undefined && getScope(impl) === 'singleton' && filter(impl)
+  })
+}
+
+/**
+ * Mark a service as failed if one of its dependencies failed
+ */
+function dependsOnFailure(
+  scope: ScopeState,
+  key: symbol,
+  failed: Set<symbol>,
+): boolean {
+  for (const dep of scope.graph.edges.get(key)!) {
+    if (failed.has(dep)) {
+      failed.add(key)
+      return true
+    }
+  }
+  return false
+}
@@ -0,0 +1,94 @@
+import { getDependencyTag } from './dependency.ts'
+import type { ServiceDefinition } from './dispose.ts'
+import { ServiceNotFoundError } from './errors.ts'
+import { getScope } from './graph.ts'
+import { getPublicTag } from './namespace.ts'
+import { getOwner } from './resolve.ts'
+import type { ScopeState } from './scope.ts'
+import { getRootScope } from './scope.ts'
+import type { ServiceDescription, Tag } from './types.ts'
+
+/**
+ * Check whether a container can resolve the service
+ * Services hidden by Layer.provide are not resolvable
+ */
+export function isExposed(scope: ScopeState, tag: Tag<unknown>): boolean {
+  return scope.graph.nodes.has(tag.key) && !scope.graph.hidden.has(tag.key)
+}
+
+/**
+ * Tags of the services a container can resolve, in provision order
+ */
+export function listTags(scope: ScopeState): Tag<unknown>[] {
+  return [...scope.graph.nodes.values()].filter((tag) => isExposed(scope, tag))
+}
+
+export function describeService(
+  scope: ScopeState,
+  tag: Tag<unknown>,
+): ServiceDescription {
+  if (!isExposed(scope, tag)) {
+    throw new ServiceNotFoundError([[tag]])
+  }
+
+  const impl = scope.graph.layerMap.get(tag.key)!
+  const service = getOwner(impl, scope).services.get(tag.key)
+
+  return {
+    tag,
+    scope: getScope(impl),
+    dependencies: impl.dependencies.map((dependency) =>
+      getPublicTag(getDependencyTag(dependency)),
+    ),
+    disposable: isDisposable(scope, tag),
+    instantiated: isInstantiated(service),
+  }
+}
+
+/**
+ * Check whether the instances of a service have a disposer
+ *
+ * A decorated service is disposed through the implementation it wraps, which
+ * the decorator layer depends on first. A resource's disposer is only known
+ * once it is created.
+ */
+function isDisposable(scope: ScopeState, tag: Tag<unknown>): boolean {
+  let key = tag.key
+  let impl = scope.graph.layerMap.get(key)!
+  while (impl.isDecorator()) {
+    key = getDependencyTag(impl.dependencies[0]).key
+    impl = scope.graph.layerMap.get(key)!
+  }
+
+  const service = getOwner(impl, scope).services.get(key)
+  return isInstantiated(service)
+    ? service.instances.some((instance) => instance.dispose !== undefined)
+    : !impl.isValue() && impl.options?.dispose !== undefined
+}
+
+/**
+ * Tags of the services with live instances in a container, in creation order
+ *
+ * A child scope lists the singletons of its root and its own scoped and
+ * transient instances.
+ */
+export function listInstantiated(scope: ScopeState): Tag<unknown>[] {
+  const root = getRootScope(scope)
+  const singletons =
+    root === scope
+      ? []
+      : [...root.services.values()].filter(
+          (service) => service.scope === 'singleton',
+        )
+
+  return [...singletons, ...scope.services.values()]
+    .filter(isInstantiated)
+    .map((service) => service.tag)
+    .filter((tag) => isExposed(scope, tag))
+}
+
+function isInstantiated(
+  service: ServiceDefinition | undefined,
+): service is ServiceDefinition {
+  return service !== undefined && service.instances.length > 0
+}
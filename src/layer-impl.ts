@@ -0,0 +1,119 @@
+import type { Layer } from './layer.ts'
+import type {
+  Dependency,
+  LayerOptions,
+  MergeOptions,
+  Scope,
+  Tag,
+} from './types.ts'
+
+export type LayerType =
+  | 'value'
+  | 'factory'
+  | 'effect'
+  | 'merged'
+  | 'provide'
+  | 'provideMerge'
+  | 'override'
+  | 'multi'
+  | 'decorate'
+
+export class LayerImpl<Out = never, In = never> implements Layer<Out, In> {
+  readonly _layer = true
+  readonly _Out!: Out
+  readonly _In!: In
+  type: LayerType
+  tag: Tag<unknown> | undefined
+  value: unknown
+  dependencies: readonly Dependency[]
+  factory: ((...deps: unknown[]) => unknown) | undefined
+  options: LayerOptions<unknown> | undefined
+  layers: LayerImpl[] | undefined
+  mergeOptions: MergeOptions | undefined
+
+  constructor(
+    type: LayerType,
+    tag: Tag<unknown> | undefined,
+    value: unknown,
+    dependencies: readonly Dependency[],
+    factory: ((...deps: unknown[]) => unknown) | undefined,
+    options: LayerOptions<unknown> | undefined,
+    layers: LayerImpl[] | undefined,
+    mergeOptions: MergeOptions | undefined,
+  ) {
+    this.type = type
+    this.tag = tag
+    this.value = value
+    this.dependencies = dependencies
+    this.factory = factory
+    this.options = options
+    this.layers = layers
+    this.mergeOptions = mergeOptions
+  }
+
+  isMerged(): this is LayerImpl & { layers: LayerImpl[] } {
+    return this.type === 'merged'
+  }
+
+  isOverride(): this is LayerImpl & { layers: [LayerImpl, LayerImpl] } {
+    return this.type === 'override'
+  }
+
+  isMulti(): this is LayerImpl & { tag: Tag<unknown>; layers: [LayerImpl] } {
+    return this.type === 'multi'
+  }
+
+  isDecorator(): this is LayerImpl & {
+    tag: Tag<unknown>
+    factory: (...deps: unknown[]) => unknown
+  } {
+    return this.type === 'decorate'
+  }
+
+  isValue(): this is LayerImpl & { tag: Tag<unknown>; value: unknown } {
+    return this.type === 'value'
+  }
+
+  isFactory(): this is LayerImpl & {
+    tag: Tag<unknown>
+    dependencies: readonly Dependency[]
+    factory: (...deps: unknown[]) => unknown
+  } {
+    return this.type === 'factory'
+  }
+
+  isEffect(): this is LayerImpl & {
+    tag: Tag<unknown>
+    dependencies: readonly Dependency[]
+    factory: (...deps: unknown[]) => Promise<unknown>
+  } {
+    return this.type === 'effect'
+  }
+}
+
+export function toLayerImpl<Out, In>(
+  layer: Layer<Out, In>,
+): LayerImpl<Out, In> {
+  return layer as unknown as LayerImpl<Out, In>
+}
+
+/**
+ * Create the layer that collects the contributions to a multi-binding tag
+ * into an array, in contribution order
+ */
+export function createCollectorLayer(
+  tag: Tag<unknown>,
+  contributions: readonly Tag<unknown>[],
+  scope: Scope,
+): LayerImpl {
+  return new LayerImpl(
+    'factory',
+    tag,
+    undefined,
+    contributions,
+    (...instances: unknown[]) => instances,
+    { scope },
+    undefined,
+    undefined,
+  )
+}
@@ -1,5 +1,19 @@
+import {
+  graph,
+  map,
+  override,
+  provide,
+  provideMerge,
+  validate,
+} from './compose.ts'
+import { config } from './config.ts'
+import { decorate } from './decorate.ts'
+import { LayerImpl, toLayerImpl } from './layer-impl.ts'
+import { classLayer, service } from './service.ts'
+import { tag as createTag } from './tag.ts'
 import type {
   Any,
+  Dependency,
   ExtractTypes,
   LayerOptions,
   MergeIn,
@@ -20,65 +34,11 @@ export interface Layer<Out = never, In = never> {
   readonly _In: In
 }
 
-class LayerImpl<Out = never, In = never> implements Layer<Out, In> {
-  readonly _layer = true
-  readonly _Out!: Out
-  readonly _In!: In
-  type: 'value' | 'factory' | 'merged'
-  tag: Tag<unknown> | undefined
-  value: unknown
-  dependencies: readonly Tag<unknown>[]
-  factory: ((...deps: unknown[]) => unknown) | undefined
-  options: LayerOptions<unknown> | undefined
-  layers: LayerImpl[] | undefined
-  mergeOptions: MergeOptions | undefined
-
-  constructor(
-    type: 'value' | 'factory' | 'merged',
-    tag: Tag<unknown> | undefined,
-    value: unknown,
-    dependencies: readonly Tag<unknown>[],
-    factory: ((...deps: unknown[]) => unknown) | undefined,
-    options: LayerOptions<unknown> | undefined,
-    layers: LayerImpl[] | undefined,
-    mergeOptions: MergeOptions | undefined,
-  ) {
-    this.type = type
-    this.tag = tag
-    this.value = value
-    this.dependencies = dependencies
-    this.factory = factory
-    this.options = options
-    this.layers = layers
-    this.mergeOptions = mergeOptions
-  }
-
-  isMerged(): this is LayerImpl & { layers: LayerImpl[] } {
-    return this.type === 'merged'
-  }
-
-  isValue(): this is LayerImpl & { tag: Tag<unknown>; value: unknown } {
-    return this.type === 'value'
-  }
-
-  isFactory(): this is LayerImpl & {
-    tag: Tag<unknown>
-    dependencies: readonly Tag<unknown>[]
-    factory: (...deps: unknown[]) => unknown
-  } {
-    return this.type === 'factory'
-  }
-}
-
-function toLayerImpl<Out, In>(layer: Layer<Out, In>): LayerImpl<Out, In> {
-  return layer as unknown as LayerImpl<Out, In>
-}
-
 /**
  * Create a layer with a pre-built value
  */
-export function value<T>(tag: Tag<T>, value: T): Layer<T, never> {
-  return new LayerImpl<T, never>(
+export function value<T, Id>(tag: Tag<T, Id>, value: T): Layer<Id, never> {
+  return new LayerImpl<Id, never>(
     'value',
     tag,
     value,
@@ -93,33 +53,91 @@ export function value<T>(tag: Tag<T>, value: T): Layer<T, never> {
 /**
  * Create a layer with a factory function (no dependencies)
  */
-export function factory<T>(
-  tag: Tag<T>,
+export function factory<T, Id>(
+  tag: Tag<T, Id>,
   factoryFn: () => T,
   options?: LayerOptions<T>,
-): Layer<T, never>
+): Layer<Id, never>
 
 /**
  * Create a layer with a factory function (with dependencies)
  */
-export function factory<T, const D extends readonly Tag<Any>[]>(
-  tag: Tag<T>,
+export function factory<T, Id, const D extends readonly Dependency[]>(
+  tag: Tag<T, Id>,
   dependencies: D,
   factoryFn: (...deps: ExtractTypes<D>) => T,
   options?: LayerOptions<T>,
-): Layer<T, TagsToUnion<D>>
+): Layer<Id, TagsToUnion<D>>
 
 export function factory<T>(
   tag: Tag<T>,
-  dependenciesOrFactory: Tag<unknown>[] | (() => T),
+  dependenciesOrFactory: Dependency[] | (() => T),
   factoryOrOptions?: ((...deps: unknown[]) => T) | LayerOptions<T>,
   options?: LayerOptions<T>,
 ) {
+  return createFactoryLayer(
+    'factory',
+    tag,
+    dependenciesOrFactory,
+    factoryOrOptions,
+    options,
+  )
+}
+
+/**
+ * Create a layer with an async factory function (no dependencies)
+ * @example
+ * const DatabaseLive = Layer.effect(DatabaseTag, async () => {
+ *   const pool = await createPool()
+ *   return pool
+ * })
+ */
+export function effect<T, Id>(
+  tag: Tag<T, Id>,
+  factoryFn: () => Promise<T>,
+  options?: LayerOptions<T>,
+): Layer<Id, never>
+
+/**
+ * Create a layer with an async factory function (with dependencies)
+ */
+export function effect<T, Id, const D extends readonly Dependency[]>(
+  tag: Tag<T, Id>,
+  dependencies: D,
+  factoryFn: (...deps: ExtractTypes<D>) => Promise<T>,
+  options?: LayerOptions<T>,
+): Layer<Id, TagsToUnion<D>>
+
+export function effect<T>(
+  tag: Tag<T>,
+  dependenciesOrFactory: Dependency[] | (() => Promise<T>),
+  factoryOrOptions?: ((...deps: unknown[]) => Promise<T>) | LayerOptions<T>,
+  options?: LayerOptions<T>,
+) {
+  return createFactoryLayer(
+    'effect',
+    tag,
+    dependenciesOrFactory,
+    factoryOrOptions,
+    options,
+  )
+}
+
+function createFactoryLayer<T>(
+  type: 'factory' | 'effect',
+  tag: Tag<T>,
+  dependenciesOrFactory: Dependency[] | ((...deps: unknown[]) => unknown),
+  factoryOrOptions:
+    | ((...deps: unknown[]) => unknown)
+    | LayerOptions<T>
+    | undefined,
+  options: LayerOptions<T> | undefined,
+): Layer<T, never> {
   if (typeof dependenciesOrFactory === 'function') {
-    const factory = dependenciesOrFactory as () => T
+    const factory = dependenciesOrFactory
     const opts = (factoryOrOptions as LayerOptions<T> | undefined) ?? options
     return new LayerImpl<T, never>(
-      'factory',
+      type,
       tag,
       undefined,
       [],
@@ -131,9 +149,9 @@ export function factory<T>(
   }
 
   const dependencies = dependenciesOrFactory
-  const factory = factoryOrOptions as (...deps: unknown[]) => T
+  const factory = factoryOrOptions as (...deps: unknown[]) => unknown
   return new LayerImpl<T, never>(
-    'factory',
+    type,
     tag,
     undefined,
     dependencies,
@@ -144,19 +162,66 @@ export function factory<T>(
   )
 }
 
+// Number of contributions created per multi-binding tag, used in their names
+const contributionCounts = new Map<symbol, number>()
+
 /**
- * Merge layers (array form - for allowDuplicates)
+ * Contribute a service to a multi-binding tag (no dependencies)
+ * @example
+ * const DatabaseCheck = Layer.multi(HealthChecksTag, () => checkDatabase)
  */
-export function merge<L extends readonly Layer<Any, Any>[]>(
-  layers: L,
-  options: MergeOptions,
-): Layer<never, never>
+export function multi<T>(
+  tag: Tag<readonly T[]>,
+  factoryFn: () => NoInfer<T>,
+  options?: LayerOptions<T>,
+): Layer<readonly T[], never>
+
+/**
+ * Contribute a service to a multi-binding tag (with dependencies)
+ */
+export function multi<T, const D extends readonly Dependency[]>(
+  tag: Tag<readonly T[]>,
+  dependencies: D,
+  factoryFn: (...deps: ExtractTypes<D>) => NoInfer<T>,
+  options?: LayerOptions<T>,
+): Layer<readonly T[], TagsToUnion<D>>
+
+export function multi<T>(
+  tag: Tag<readonly T[]>,
+  dependenciesOrFactory: Dependency[] | (() => T),
+  factoryOrOptions?: ((...deps: unknown[]) => T) | LayerOptions<T>,
+  options?: LayerOptions<T>,
+) {
+  // Every contribution is a service of its own, resolved through its own tag
+  const index = contributionCounts.get(tag.key) ?? 0
+  contributionCounts.set(tag.key, index + 1)
+  const contributionTag = createTag<T>(`${tag.name}[${index}]`)
+
+  const contribution = createFactoryLayer(
+    'factory',
+    contributionTag,
+    dependenciesOrFactory,
+    factoryOrOptions,
+    options,
+  )
+  return new LayerImpl<readonly T[], never>(
+    'multi',
+    tag,
+    undefined,
+    [],
+    undefined,
+    undefined,
+    [toLayerImpl(contribution as Layer)],
+    undefined,
+  )
+}
 
 /**
- * Merge layers (array form - no options)
+ * Merge layers (array form)
  */
-export function merge<L extends readonly Layer<Any, Any>[]>(
+export function merge<const L extends readonly Layer<Any, Any>[]>(
   layers: L,
+  options?: MergeOptions,
 ): Layer<MergeOut<L>, MergeIn<L>>
 
 /**
@@ -167,11 +232,11 @@ export function merge<
 >(...layers: L): Layer<MergeOut<L>, MergeIn<L>>
 
 /**
- * Merge layers (spread form with options - loses type info)
+ * Merge layers (spread form with options)
  */
-export function merge(
-  ...layersAndOptions: [...Layer<Any, Any>[], MergeOptions]
-): Layer<never, never>
+export function merge<
+  L extends readonly [Layer<Any, Any>, ...Layer<Any, Any>[]],
+>(...layersAndOptions: [...L, MergeOptions]): Layer<MergeOut<L>, MergeIn<L>>
 
 /**
  * Merge layers fallback
@@ -204,7 +269,7 @@ export function merge(...args: unknown[]): Layer {
       typeof arg === 'object' &&
       arg !== null &&
       !('type' in arg) &&
-      'allowDuplicates' in arg
+      ('duplicates' in arg || 'allowDuplicates' in arg)
     ) {
       return new LayerImpl(
         'merged',
@@ -236,7 +301,23 @@ export function merge(...args: unknown[]): Layer {
 /**
  * Layer namespace for creating and merging layers
  */
-export const Layer = { value, factory, merge }
+export const Layer = {
+  value,
+  factory,
+  effect,
+  class: classLayer,
+  service,
+  multi,
+  config,
+  merge,
+  provide,
+  provideMerge,
+  override,
+  map,
+  decorate,
+  validate,
+  graph,
+}
 
 /**
  * Get the internal LayerImpl from a Layer
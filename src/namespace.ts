@@ -0,0 +1,110 @@
+import { getDependencyTag } from './dependency.ts'
+import { LayerImpl } from './layer-impl.ts'
+import type { Dependency, Tag } from './types.ts'
+
+/**
+ * Private tags standing for the services a Layer.provide provider exposes,
+ * by the key of the tag they stand for
+ */
+export type Namespace = ReadonlyMap<symbol, Tag<unknown>>
+
+// Tag each private tag stands for
+const publicTags = new WeakMap<Tag<unknown>, Tag<unknown>>()
+
+/**
+ * Get the tag a private tag stands for, or the tag itself
+ */
+export function getPublicTag(tag: Tag<unknown>): Tag<unknown> {
+  return publicTags.get(tag) ?? tag
+}
+
+/**
+ * Get the tags a resolution path stands for, for errors and hooks
+ */
+export function getPublicPath(
+  path: readonly Tag<unknown>[],
+): readonly Tag<unknown>[] {
+  return path.map(getPublicTag)
+}
+
+/**
+ * Tags of the services a layer exposes to the layers it is merged with
+ */
+export function listExposed(impl: LayerImpl<unknown, unknown>): Tag<unknown>[] {
+  if (impl.isDecorator()) {
+    return []
+  }
+  if (!impl.layers) {
+    return [impl.tag!]
+  }
+  if (impl.isMulti()) {
+    return [impl.tag]
+  }
+
+  const [first, second] = impl.layers
+  if (impl.type === 'provide' || impl.isOverride()) {
+    return listExposed(first)
+  }
+  return impl.type === 'provideMerge'
+    ? [...listExposed(first), ...listExposed(second)]
+    : impl.layers.flatMap(listExposed)
+}
+
+/**
+ * Extend `outer` with a private tag for every service `provider` exposes
+ *
+ * Each Layer.provide gets its own private tags, so that providers of the same
+ * tag in different Layer.provide calls never collide.
+ */
+export function createNamespace(
+  outer: Namespace,
+  provider: LayerImpl<unknown, unknown>,
+): Namespace {
+  const namespace = new Map(outer)
+  for (const tag of listExposed(provider)) {
+    const own = { ...tag, key: Symbol(tag.name) }
+    publicTags.set(own, tag)
+    namespace.set(tag.key, own)
+  }
+  return namespace
+}
+
+/**
+ * Copy a layer with its tag taken from `services` and its dependencies from
+ * `dependencies`
+ */
+export function renameLayer<L extends LayerImpl<unknown, unknown>>(
+  impl: L,
+  services: Namespace,
+  dependencies: Namespace,
+): L {
+  if (services.size === 0 && dependencies.size === 0) {
+    return impl
+  }
+
+  return new LayerImpl(
+    impl.type,
+    impl.tag && rename(impl.tag, services),
+    impl.value,
+    impl.dependencies.map((dep) => renameDependency(dep, dependencies)),
+    impl.factory,
+    impl.options,
+    impl.layers,
+    impl.mergeOptions,
+  ) as L
+}
+
+export function rename(tag: Tag<unknown>, namespace: Namespace): Tag<unknown> {
+  return namespace.get(tag.key) ?? tag
+}
+
+function renameDependency(
+  dependency: Dependency,
+  namespace: Namespace,
+): Dependency {
+  const tag = namespace.get(getDependencyTag(dependency).key)
+  if (!tag) {
+    return dependency
+  }
+  return '_dependency' in dependency ? { ...dependency, tag } : tag
+}
@@ -0,0 +1,343 @@
+import { getDependencyTag, isLazy, isOptional } from './dependency.ts'
+import type { Disposer } from './dispose.ts'
+import { getResourceDisposer } from './dispose.ts'
+import {
+  AsyncServiceError,
+  CircularDependencyError,
+  ConfigError,
+  FactoryError,
+  ServiceNotFoundError,
+} from './errors.ts'
+import type { DependencyGraph, LayerImpl } from './graph.ts'
+import { getScope } from './graph.ts'
+import { observeCreation, observeCreationAsync } from './hooks.ts'
+import { getPublicPath, getPublicTag } from './namespace.ts'
+import { withRetry, withTimeout } from './retry.ts'
+import type { ScopeState } from './scope.ts'
+import { assertNotDisposed, getRootScope } from './scope.ts'
+import { getSpanAttributes, traced } from './tracing.ts'
+import type { Dependency, ResolutionContext, Tag } from './types.ts'
+
+/**
+ * Resolve a service synchronously within a scope
+ *
+ * Singletons are resolved in the root scope, scoped services in the given
+ * scope, and transient instances are tracked by the given scope. `path` holds
+ * the tags that led to this one and is reported by resolution errors.
+ */
+export function createService(
+  tag: Tag<unknown>,
+  scope: ScopeState,
+  path: readonly Tag<unknown>[] = [],
+): unknown {
+  const resolving = [...path, tag]
+  const impl = findLayer(resolving, scope.graph)
+  const owner = getOwner(impl, scope)
+
+  const existing = owner.services.get(tag.key)
+  if (existing && existing.scope !== 'transient') {
+    return existing.instances[0].value
+  }
+
+  assertSynchronous(impl, owner, resolving)
+
+  const { creating } = getRootScope(owner)
+  const context = createContext(impl, resolving)
+  creating.add(tag.key)
+  let instance: unknown
+  try {
+    instance = observeCreation(
+      owner.lifecycle,
+      context,
+      () => {
+        if (impl.isValue()) {
+          return impl.value
+        }
+
+        // impl must be factory due to buildGraph filtering
+        const dependencies = impl.dependencies.map((dependency) =>
+          resolveDependency(dependency, owner, resolving, createService),
+        )
+        try {
+          return runFactory(impl, owner, resolving, dependencies)
+        } catch (error) {
+          throw toFactoryError(resolving, error)
+        }
+      },
+      (discarded) => void discardInstance(impl, discarded),
+    )
+  } finally {
+    creating.delete(tag.key)
+  }
+
+  return registerService(tag, impl, instance, owner)
+}
+
+/**
+ * Check that a service can be created synchronously
+ *
+ * `path` ends with the tag of the service. A tag found earlier in the path,
+ * while its service is still being created, is a cycle closed by a lazy
+ * dependency. Errors report the public tags of the path.
+ */
+function assertSynchronous(
+  impl: LayerImpl,
+  owner: ScopeState,
+  path: readonly Tag<unknown>[],
+): void {
+  const tag = path[path.length - 1]
+  const publicPath = getPublicPath(path)
+  const publicTag = getPublicTag(tag)
+  if (impl.isEffect()) {
+    throw new AsyncServiceError(publicTag, publicPath, 'effect')
+  }
+  // Neither can be applied without waiting
+  const { timeout, retry } = impl.options ?? {}
+  if (timeout !== undefined || retry) {
+    throw new AsyncServiceError(publicTag, publicPath, 'policy')
+  }
+  const { creating } = getRootScope(owner)
+  const start = path.findIndex((other) => other.key === tag.key)
+  if (
+    start < path.length - 1 &&
+    (creating.has(tag.key) || owner.pending.has(tag.key))
+  ) {
+    throw new CircularDependencyError([publicPath.slice(start)])
+  }
+  // A second instance would break the single instance getAsync() is creating
+  if (owner.pending.has(tag.key)) {
+    throw new AsyncServiceError(publicTag, publicPath, 'pending')
+  }
+}
+
+/**
+ * Resolve a service within a scope, awaiting asynchronous factories
+ */
+export async function createServiceAsync(
+  tag: Tag<unknown>,
+  scope: ScopeState,
+  path: readonly Tag<unknown>[] = [],
+): Promise<unknown> {
+  const resolving = [...path, tag]
+  const impl = findLayer(resolving, scope.graph)
+  const owner = getOwner(impl, scope)
+
+  const existing = owner.services.get(tag.key)
+  if (existing && existing.scope !== 'transient') {
+    return existing.instances[0].value
+  }
+
+  // Concurrent requests for the same instance share one initialization
+  const pending = owner.pending.get(tag.key)
+  if (pending) {
+    return pending
+  }
+
+  const context = createContext(impl, resolving)
+  if (impl.isValue()) {
+    const instance = observeCreation(
+      owner.lifecycle,
+      context,
+      () => impl.value,
+      (discarded) => void discardInstance(impl, discarded),
+    )
+    return registerService(tag, impl, instance, owner)
+  }
+
+  // Transient instances are not shared, but disposal still waits for them
+  const key = getScope(impl) === 'transient' ? Symbol(tag.name) : tag.key
+  const initialization = (async () => {
+    try {
+      const instance = await observeCreationAsync(
+        owner.lifecycle,
+        context,
+        () => createInstanceAsync(impl, owner, resolving),
+        (discarded) => void discardInstance(impl, discarded),
+      )
+      return registerService(tag, impl, instance, owner)
+    } finally {
+      owner.pending.delete(key)
+    }
+  })()
+  owner.pending.set(key, initialization)
+
+  return initialization
+}
+
+/**
+ * Run a factory or effect once its dependencies are resolved
+ *
+ * Each call is bounded by the layer's `timeout`, and failed calls are
+ * repeated according to its `retry` policy.
+ */
+async function createInstanceAsync(
+  impl: LayerImpl,
+  scope: ScopeState,
+  path: readonly Tag<unknown>[],
+): Promise<unknown> {
+  const dependencies = await Promise.all(
+    impl.dependencies.map((dependency) =>
+      resolveDependency(dependency, scope, path, createServiceAsync),
+    ),
+  )
+  const { timeout, retry } = impl.options ?? {}
+  const tag = getPublicTag(path[path.length - 1])
+  try {
+    return await withRetry(
+      async () =>
+        withTimeout(
+          Promise.resolve(runFactory(impl, scope, path, dependencies)),
+          tag,
+          timeout,
+          (instance) => void discardInstance(impl, instance),
+        ),
+      retry,
+    )
+  } catch (error) {
+    throw toFactoryError(path, error)
+  }
+}
+
+/**
+ * Wrap an error thrown by a factory, except for errors in the setup of the
+ * container, reported as is: a cycle closed by a lazy dependency or an
+ * invalid configuration
+ *
+ * The path is reported with public tags, like to hooks.
+ */
+function toFactoryError(path: readonly Tag<unknown>[], error: unknown): Error {
+  return error instanceof CircularDependencyError ||
+    error instanceof ConfigError
+    ? error
+    : new FactoryError(getPublicPath(path), error)
+}
+
+/**
+ * Call the factory of a layer, in a span when the container has a tracer
+ */
+function runFactory(
+  impl: LayerImpl,
+  scope: ScopeState,
+  path: readonly Tag<unknown>[],
+  dependencies: unknown[],
+): unknown {
+  const tag = path[path.length - 1]
+  return traced(
+    scope.lifecycle.tracer,
+    `create ${tag.name}`,
+    getSpanAttributes(tag, getScope(impl), dependencies.length),
+    () => impl.factory!(...dependencies),
+  )
+}
+
+/**
+ * Resolve an entry of a factory's dependency list with `resolve`
+ *
+ * Optional dependencies that are not provided resolve to `undefined`, and
+ * lazy ones to a function resolving the service synchronously when called.
+ */
+function resolveDependency(
+  dependency: Dependency,
+  scope: ScopeState,
+  path: readonly Tag<unknown>[],
+  resolve: typeof createService | typeof createServiceAsync,
+): unknown {
+  const tag = getDependencyTag(dependency)
+
+  if (isLazy(dependency)) {
+    return () => {
+      assertNotDisposed(scope, tag)
+      return createService(tag, scope, path)
+    }
+  }
+  if (isOptional(dependency) && !scope.graph.layerMap.has(tag.key)) {
+    return undefined
+  }
+  return resolve(tag, scope, path)
+}
+
+/**
+ * Describe a resolution to hooks and interceptors, with the public tags of
+ * services private to a Layer.provide
+ */
+function createContext(
+  impl: LayerImpl,
+  path: readonly Tag<unknown>[],
+): ResolutionContext {
+  const publicPath = getPublicPath(path)
+  return {
+    tag: publicPath[publicPath.length - 1],
+    scope: getScope(impl),
+    path: publicPath,
+  }
+}
+
+/**
+ * Get the scope owning the instances of a service
+ */
+export function getOwner(impl: LayerImpl, scope: ScopeState): ScopeState {
+  return getScope(impl) === 'singleton' ? getRootScope(scope) : scope
+}
+
+function findLayer(
+  path: readonly Tag<unknown>[],
+  graph: DependencyGraph,
+): LayerImpl {
+  const layer = graph.layerMap.get(path[path.length - 1].key)
+  if (!layer) {
+    throw new ServiceNotFoundError([getPublicPath(path)])
+  }
+  return layer
+}
+
+function registerService(
+  tag: Tag<unknown>,
+  impl: LayerImpl,
+  instance: unknown,
+  scope: ScopeState,
+): unknown {
+  const entry = { value: instance, dispose: getDisposer(impl, instance) }
+  const serviceScope = getScope(impl)
+  // Transient instances are only kept to be disposed, so that the container
+  // does not hold on to every one it creates
+  if (serviceScope === 'transient' && !entry.dispose) {
+    return instance
+  }
+
+  const existing = scope.services.get(tag.key)
+  if (existing) {
+    existing.instances.push(entry)
+    return instance
+  }
+
+  scope.services.set(tag.key, {
+    tag,
+    instances: [entry],
+    scope: serviceScope,
+    disposeTimeout: impl.options?.disposeTimeout,
+  })
+
+  return instance
+}
+
+function getDisposer(impl: LayerImpl, instance: unknown): Disposer | undefined {
+  // Decorators wrap an instance that the decorated service disposes
+  return impl.isValue() || impl.isDecorator()
+    ? undefined
+    : (impl.options?.dispose ?? getResourceDisposer(instance))
+}
+
+/**
+ * Dispose an instance the container never tracks: one created after its
+ * factory call timed out, or rejected by an interceptor or the onResolved hook
+ */
+async function discardInstance(
+  impl: LayerImpl,
+  instance: unknown,
+): Promise<void> {
+  try {
+    await getDisposer(impl, instance)?.(instance)
+  } catch {
+    // The call already failed, there is no one to notify
+  }
+}
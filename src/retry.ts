@@ -0,0 +1,57 @@
+import { TimeoutError } from './errors.ts'
+import type { RetryOptions, Tag } from './types.ts'
+
+/**
+ * Reject with a TimeoutError if `promise` does not settle within `timeout`
+ *
+ * The operation itself keeps running; only the wait for it is abandoned. A
+ * value it resolves to after the timeout is passed to `onLateResult`, e.g. to
+ * dispose an instance nobody will receive.
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  tag: Tag<unknown>,
+  timeout: number | undefined,
+  onLateResult?: (value: T) => void,
+): Promise<T> {
+  if (timeout === undefined) {
+    return promise
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new TimeoutError(tag, timeout))
+      if (onLateResult) {
+        promise.then(onLateResult, () => {})
+      }
+    }, timeout)
+  })
+
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Call `attempt` until it succeeds or the retry policy runs out of attempts
+ * The error of the last attempt is rethrown.
+ */
+export async function withRetry<T>(
+  attempt: () => Promise<T>,
+  retry: RetryOptions | undefined,
+): Promise<T> {
+  const attempts = retry?.attempts ?? 1
+
+  for (let count = 1; ; count++) {
+    try {
+      return await attempt()
+    } catch (error) {
+      if (count >= attempts) {
+        throw error
+      }
+    }
+
+    const backoff = retry!.backoff ?? 0
+    const delay = typeof backoff === 'function' ? backoff(count) : backoff
+    await new Promise((resolve) => setTimeout(resolve, delay))
+  }
+}
@@ -0,0 +1,123 @@
+import type { ServiceDefinition } from './dispose.ts'
+import { disposeServices, disposeServicesSync } from './dispose.ts'
+import type { DisposalFailure } from './errors.ts'
+import { ContainerDisposedError, DisposalError } from './errors.ts'
+import type { DependencyGraph } from './graph.ts'
+import type { Lifecycle } from './hooks.ts'
+import type { Tag } from './types.ts'
+
+/**
+ * Instances owned by a container or by one of its child scopes
+ *
+ * The root scope owns singletons. Every scope owns its scoped services and
+ * the transient instances created through it.
+ */
+export interface ScopeState {
+  graph: DependencyGraph
+  lifecycle: Lifecycle
+  parent: ScopeState | undefined
+  children: Set<ScopeState>
+  services: Map<symbol, ServiceDefinition>
+  /** Asynchronous creations in progress, by tag key for shared instances */
+  pending: Map<symbol, Promise<unknown>>
+  /** Keys of the services being created synchronously, tracked by the root */
+  creating: Set<symbol>
+  /** Failures of the disposal of the scope, once it started */
+  disposal: Promise<readonly DisposalFailure[]> | undefined
+}
+
+export function createScopeState(
+  graph: DependencyGraph,
+  lifecycle: Lifecycle,
+  parent: ScopeState | undefined,
+): ScopeState {
+  const scope: ScopeState = {
+    graph,
+    lifecycle,
+    parent,
+    children: new Set(),
+    services: new Map(),
+    pending: new Map(),
+    creating: new Set(),
+    disposal: undefined,
+  }
+  parent?.children.add(scope)
+  return scope
+}
+
+export function getRootScope(scope: ScopeState): ScopeState {
+  let current = scope
+  while (current.parent) {
+    current = current.parent
+  }
+  return current
+}
+
+/**
+ * Check that a scope can still be used, e.g. to resolve `tag`
+ */
+export function assertNotDisposed(scope: ScopeState, tag?: Tag<unknown>): void {
+  if (scope.disposal) {
+    throw new ContainerDisposedError(tag)
+  }
+}
+
+/**
+ * Dispose a scope after all of its child scopes
+ *
+ * Children use services of their parent, so they are torn down first, and
+ * creations in progress are awaited. Failures of children and of the scope
+ * itself are reported together.
+ */
+export async function disposeScope(scope: ScopeState): Promise<void> {
+  const failures = await disposeTree(scope)
+  if (failures.length > 0) {
+    throw new DisposalError(failures)
+  }
+}
+
+function disposeTree(scope: ScopeState): Promise<readonly DisposalFailure[]> {
+  scope.disposal ??= (async () => {
+    const children = await Promise.all([...scope.children].map(disposeTree))
+    scope.parent?.children.delete(scope)
+
+    // Instances getAsync() is still creating are disposed with the others
+    while (scope.pending.size > 0) {
+      await Promise.allSettled(scope.pending.values())
+    }
+
+    const failures = await disposeServices(
+      scope.services,
+      scope.graph,
+      scope.lifecycle,
+    )
+    return [...children.flat(), ...failures]
+  })()
+
+  return scope.disposal
+}
+
+/**
+ * Dispose a scope and its child scopes synchronously
+ */
+export function disposeScopeSync(scope: ScopeState): void {
+  const failures = disposeTreeSync(scope)
+  if (failures.length > 0) {
+    throw new DisposalError(failures)
+  }
+}
+
+function disposeTreeSync(scope: ScopeState): readonly DisposalFailure[] {
+  if (scope.disposal) {
+    return []
+  }
+  scope.disposal = Promise.resolve([])
+
+  const children = [...scope.children].flatMap(disposeTreeSync)
+  scope.parent?.children.delete(scope)
+
+  return [
+    ...children,
+    ...disposeServicesSync(scope.services, scope.graph, scope.lifecycle),
+  ]
+}
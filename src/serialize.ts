@@ -0,0 +1,145 @@
+import { getDependencyTag, isLazy, isOptional } from './dependency.ts'
+import type { DependencyGraph } from './graph.ts'
+import { getScope } from './graph.ts'
+import { getPublicTag } from './namespace.ts'
+import type { GraphEdge, GraphNode, ServiceGraph } from './types.ts'
+
+/**
+ * Describe a dependency graph with its public tags instead of keys
+ *
+ * Services private to a Layer.provide are described with the tag they stand
+ * for.
+ */
+export function describeGraph(graph: DependencyGraph): ServiceGraph {
+  const nodes: GraphNode[] = []
+  const edges: GraphEdge[] = []
+  const indexes = new Map(
+    [...graph.nodes.keys()].map((key, index) => [key, index]),
+  )
+
+  for (const [key, tag] of graph.nodes) {
+    const impl = graph.layerMap.get(key)!
+    nodes.push({
+      tag: getPublicTag(tag),
+      scope: getScope(impl),
+      origin: graph.collectors.has(key)
+        ? 'multi'
+        : (impl.type as GraphNode['origin']),
+      hidden: graph.hidden.has(key),
+    })
+
+    for (const dependency of impl.dependencies) {
+      const to = graph.nodes.get(getDependencyTag(dependency).key)
+      if (to) {
+        const kind = isLazy(dependency)
+          ? 'lazy'
+          : isOptional(dependency)
+            ? 'optional'
+            : 'required'
+        edges.push({
+          from: getPublicTag(tag),
+          to: getPublicTag(to),
+          fromIndex: indexes.get(key)!,
+          toIndex: indexes.get(to.key)!,
+          kind,
+        })
+      }
+    }
+  }
+
+  return { nodes, edges }
+}
+
+/**
+ * Serialize a service graph to Graphviz DOT
+ *
+ * Optional dependencies are drawn dashed and lazy ones dotted.
+ * @example
+ * writeFileSync('services.dot', toDot(Layer.graph(AppLive)))
+ */
+export function toDot(graph: ServiceGraph): string {
+  const styles = { required: '', optional: 'dashed', lazy: 'dotted' }
+
+  const lines = ['digraph {']
+  for (const [index, node] of graph.nodes.entries()) {
+    const label = escapeDot(`${node.tag.name} (${node.scope})`)
+    lines.push(`  ${getNodeId(index)} [label="${label}"]`)
+  }
+  for (const edge of graph.edges) {
+    const style = styles[edge.kind]
+    const attributes = style ? ` [style=${style}]` : ''
+    const from = getNodeId(edge.fromIndex)
+    lines.push(`  ${from} -> ${getNodeId(edge.toIndex)}${attributes}`)
+  }
+  lines.push('}')
+
+  return lines.join('\n')
+}
+
+/**
+ * Serialize a service graph to a Mermaid flowchart
+ *
+ * Optional and lazy dependencies are drawn as labelled dotted links.
+ * @example
+ * console.log(toMermaid(container.graph()))
+ */
+export function toMermaid(graph: ServiceGraph): string {
+  const links = {
+    required: '-->',
+    optional: '-. optional .->',
+    lazy: '-. lazy .->',
+  }
+
+  const lines = ['flowchart TD']
+  for (const [index, node] of graph.nodes.entries()) {
+    const label = escapeMermaid(`${node.tag.name} (${node.scope})`)
+    lines.push(`  ${getNodeId(index)}["${label}"]`)
+  }
+  for (const edge of graph.edges) {
+    const link = links[edge.kind]
+    lines.push(
+      `  ${getNodeId(edge.fromIndex)} ${link} ${getNodeId(edge.toIndex)}`,
+    )
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Serialize a service graph to JSON
+ *
+ * Tags are replaced by node ids, with the tag name kept on each node.
+ */
+export function toJson(graph: ServiceGraph): string {
+  return JSON.stringify(
+    {
+      nodes: graph.nodes.map(({ tag, ...node }, index) => ({
+        id: getNodeId(index),
+        name: tag.name,
+        ...node,
+      })),
+      edges: graph.edges.map((edge) => ({
+        from: getNodeId(edge.fromIndex),
+        to: getNodeId(edge.toIndex),
+        kind: edge.kind,
+      })),
+    },
+    undefined,
+    2,
+  )
+}
+
+/**
+ * Number the nodes, since several nodes may share a tag or a name
+ */
+function getNodeId(index: number): string {
+  return `n${index}`
+}
+
+function escapeDot(label: string): string {
+  return label.replace(/["\\]/g, '\\$&')
+}
+
+function escapeMermaid(label: string): string {
+  return label.replace(/"/g, '#quot;')
+}
@@ -0,0 +1,103 @@
+import type { Layer } from './layer.ts'
+import { LayerImpl } from './layer-impl.ts'
+import type {
+  Dependency,
+  ExtractTypes,
+  LayerOptions,
+  ServiceClass,
+  Tag,
+  TagsToUnion,
+} from './types.ts'
+
+/**
+ * Reject dependency lists longer than the parameter list `P` of the
+ * constructor, whose extra dependencies would be ignored
+ */
+type NoExtraDependencies<
+  D extends readonly unknown[],
+  P extends readonly unknown[],
+> = D['length'] extends P['length'] ? unknown : never
+
+/**
+ * Create a layer instantiating a class (no dependencies)
+ * @example
+ * const LoggerLive = Layer.class(LoggerTag, ConsoleLogger)
+ */
+export function classLayer<T, Id>(
+  tag: Tag<T, Id>,
+  ctor: new () => T,
+  options?: LayerOptions<T>,
+): Layer<Id, never>
+
+/**
+ * Create a layer instantiating a class with its dependencies
+ *
+ * The dependencies are passed to the constructor in order, and must match its
+ * parameter list.
+ * @example
+ * const UserServiceLive = Layer.class(UserServiceTag, UserService, [
+ *   DatabaseTag,
+ *   LoggerTag,
+ * ])
+ */
+export function classLayer<
+  T,
+  Id,
+  const D extends readonly Dependency[],
+  P extends unknown[],
+>(
+  tag: Tag<T, Id>,
+  ctor: (new (...deps: ExtractTypes<D>) => T) & (new (...params: P) => T),
+  dependencies: D & NoExtraDependencies<D, P>,
+  options?: LayerOptions<T>,
+): Layer<Id, TagsToUnion<D>>
+
+export function classLayer<T>(
+  tag: Tag<T>,
+  ctor: new (...deps: unknown[]) => T,
+  dependenciesOrOptions?: readonly Dependency[] | LayerOptions<T>,
+  options?: LayerOptions<T>,
+): Layer<T, never> {
+  const [dependencies, opts] = Array.isArray(dependenciesOrOptions)
+    ? [dependenciesOrOptions as readonly Dependency[], options]
+    : [[], dependenciesOrOptions as LayerOptions<T> | undefined]
+
+  return new LayerImpl<T, never>(
+    'factory',
+    tag,
+    undefined,
+    dependencies,
+    (...deps: unknown[]) => new ctor(...deps),
+    opts as LayerOptions<unknown>,
+    undefined,
+    undefined,
+  )
+}
+
+/**
+ * Create a layer instantiating a class that declares its tag and dependencies
+ * as static members
+ * @example
+ * class UserService {
+ *   static readonly tag = tag<UserService>('UserService')
+ *   static readonly dependencies = [DatabaseTag, LoggerTag] as const
+ *
+ *   constructor(private db: Database, private logger: Logger) {}
+ * }
+ *
+ * const UserServiceLive = Layer.service(UserService)
+ */
+export function service<
+  T,
+  Id,
+  const D extends readonly Dependency[],
+  P extends unknown[],
+>(
+  ctor: ServiceClass<T, Id, D> &
+    (new (...params: P) => T) & {
+      readonly dependencies: NoExtraDependencies<D, P>
+    },
+  options?: LayerOptions<T>,
+): Layer<Id, TagsToUnion<D>> {
+  return classLayer(ctor.tag, ctor, ctor.dependencies, options)
+}
@@ -1,8 +1,11 @@
-import type { Tag } from './types.ts'
+import type { Keyed, KeyedTag, Tag } from './types.ts'
 
 /**
  * Create a type-safe service identifier (tag)
  *
+ * Every tag has its own identity, so two tags created with the same name
+ * never resolve to each other's service. The name is only used as a label.
+ *
  * @example
  * ```ts
  * const UserRepositoryTag = tag<UserRepository>("UserRepository")
@@ -10,5 +13,73 @@ import type { Tag } from './types.ts'
  * ```
  */
 export function tag<T>(name: string): Tag<T> {
-  return { name, _brand: undefined as unknown as T }
+  return {
+    name,
+    key: Symbol(name),
+    _brand: undefined as unknown as T,
+    _id: undefined as unknown as T,
+  }
+}
+
+/**
+ * Create a tag identified by its name across the whole process
+ *
+ * Global tags with the same name are interchangeable, even when created by
+ * different packages or bundles. Use them only when sharing is intended.
+ *
+ * @example
+ * ```ts
+ * // In two independently bundled packages
+ * const LoggerTag = tag.global<Logger>("Logger")
+ * ```
+ */
+tag.global = function global<T>(name: string): Tag<T> {
+  return {
+    name,
+    key: Symbol.for(`unlayer:${name}`),
+    _brand: undefined as unknown as T,
+    _id: undefined as unknown as T,
+  }
+}
+
+/**
+ * Create a tag for a multi-binding, collecting every `Layer.multi`
+ * contribution into an array
+ *
+ * @example
+ * ```ts
+ * const HealthChecksTag = tag.many<HealthCheck>("HealthChecks")
+ * const DatabaseCheck = Layer.multi(HealthChecksTag, [DatabaseTag], (db) => ...)
+ * ```
+ */
+tag.many = function many<T>(name: string): Tag<readonly T[]> {
+  return tag<readonly T[]>(name)
+}
+
+/**
+ * Create a family of tags for services of the same type, told apart by key
+ *
+ * Each key has its own tag, named after the family and the key.
+ *
+ * @example
+ * ```ts
+ * const DatabaseTag = tag.keyed<Database, "primary" | "replica">("Database")
+ * const ReplicaLive = Layer.factory(DatabaseTag.of("replica"), () => connect())
+ * container.get(DatabaseTag, "replica")
+ * ```
+ */
+tag.keyed = function keyed<T, K extends string>(name: string): KeyedTag<T, K> {
+  const tags = new Map<string, Tag<T, Keyed<T, K>>>()
+
+  return {
+    name,
+    of<P extends K>(key: P): Tag<T, Keyed<T, P>> {
+      let keyedTag = tags.get(key)
+      if (!keyedTag) {
+        keyedTag = tag<T>(`${name}:${key}`) as Tag<T, Keyed<T, K>>
+        tags.set(key, keyedTag)
+      }
+      return keyedTag as Tag<T, Keyed<T, P>>
+    },
+  }
 }
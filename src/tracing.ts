@@ -0,0 +1,99 @@
+import type { Scope, Tag } from './types.ts'
+
+/**
+ * Attributes recorded on a span
+ */
+export type SpanAttributes = Record<string, string | number | boolean>
+
+/**
+ * The part of an `@opentelemetry/api` Span used by the container
+ */
+export interface Span {
+  recordException(exception: Error | string): void
+  setStatus(status: { code: number; message?: string }): void
+  end(): void
+}
+
+/**
+ * The part of an `@opentelemetry/api` Tracer used by the container
+ *
+ * A tracer from `trace.getTracer()` can be passed as is.
+ * @example
+ * const container = createContainer(AppLive, {
+ *   tracer: trace.getTracer('unlayer'),
+ * })
+ */
+export interface Tracer {
+  startSpan(name: string, options?: { attributes?: SpanAttributes }): Span
+}
+
+// SpanStatusCode.ERROR of @opentelemetry/api
+const SPAN_STATUS_ERROR = 2
+
+/**
+ * Attributes of the span of a service
+ * Spans of factories also record how many dependencies they received.
+ */
+export function getSpanAttributes(
+  tag: Tag<unknown>,
+  scope: Scope,
+  dependencies?: number,
+): SpanAttributes {
+  const attributes: SpanAttributes = {
+    'unlayer.service': tag.name,
+    'unlayer.scope': scope,
+  }
+  if (dependencies !== undefined) {
+    attributes['unlayer.dependency_count'] = dependencies
+  }
+  return attributes
+}
+
+/**
+ * Run `fn` in a span, ended once its result settles
+ *
+ * Runs `fn` alone when there is no tracer. Failures are recorded on the span
+ * and rethrown.
+ */
+export function traced<R>(
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: SpanAttributes,
+  fn: () => R,
+): R {
+  if (!tracer) {
+    return fn()
+  }
+
+  const span = tracer.startSpan(name, { attributes })
+  let result: R
+  try {
+    result = fn()
+  } catch (error) {
+    endWithError(span, error)
+    throw error
+  }
+
+  if (result instanceof Promise) {
+    return result.then(
+      (value: unknown) => {
+        span.end()
+        return value
+      },
+      (error: unknown) => {
+        endWithError(span, error)
+        throw error
+      },
+    ) as R
+  }
+
+  span.end()
+  return result
+}
+
+function endWithError(span: Span, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error)
+  span.recordException(error instanceof Error ? error : message)
+  span.setStatus({ code: SPAN_STATUS_ERROR, message })
+  span.end()
+}
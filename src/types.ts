@@ -1,3 +1,5 @@
+import type { Tracer } from './tracing.ts'
+
 /**
  * Any - Use this instead of `any` to avoid ESLint errors
  */
@@ -6,23 +8,82 @@ export type Any = any
 
 /**
  * Type-safe service identifier
+ * @param T - Type of the service
+ * @param Id - Type identifying the service in Layer and Container types
  */
-export interface Tag<T> {
+export interface Tag<T, Id = T> {
+  /** Display label used in error messages */
   name: string
+  /** Identity used to resolve the service */
+  key: symbol
   _brand: T
+  _id: Id
+}
+
+/**
+ * Type identifying the service of a keyed tag for one of its keys
+ */
+export interface Keyed<T, K extends string> {
+  readonly _keyed: T
+  readonly _key: K
+}
+
+/**
+ * Family of tags for services of the same type, told apart by key
+ * @param T - Type of the services
+ * @param K - Union of the keys
+ */
+export interface KeyedTag<T, K extends string> {
+  /** Display label used in error messages */
+  name: string
+  /** Get the tag for one key; the same key always returns the same tag */
+  of<P extends K>(key: P): Tag<T, Keyed<T, P>>
 }
 
 /**
- * Extract types from a tuple of Tags
+ * Dependency on a service that may not be provided, see optional()
+ */
+export interface Optional<T, Id = T> {
+  readonly _dependency: 'optional'
+  readonly tag: Tag<T, Id>
+}
+
+/**
+ * Dependency on a service created on first use, see lazy()
+ */
+export interface Lazy<T, Id = T> {
+  readonly _dependency: 'lazy'
+  readonly tag: Tag<T, Id>
+}
+
+/**
+ * Entry of a factory's dependency list
+ */
+export type Dependency = Tag<Any, Any> | Optional<Any, Any> | Lazy<Any, Any>
+
+/**
+ * Type a factory receives for a dependency
  */
-export type ExtractTypes<T extends readonly Tag<Any>[]> = T extends readonly [
+export type DependencyType<D> =
+  D extends Optional<infer U, Any>
+    ? U | undefined
+    : D extends Lazy<infer U, Any>
+      ? () => U
+      : D extends Tag<infer U, Any>
+        ? U
+        : never
+
+/**
+ * Extract types from a tuple of dependencies
+ */
+export type ExtractTypes<T extends readonly Dependency[]> = T extends readonly [
   infer First,
   ...infer Rest,
 ]
-  ? First extends Tag<infer U>
-    ? Rest extends readonly Tag<Any>[]
-      ? [U, ...ExtractTypes<Rest>]
-      : [U]
+  ? First extends Dependency
+    ? Rest extends readonly Dependency[]
+      ? [DependencyType<First>, ...ExtractTypes<Rest>]
+      : [DependencyType<First>]
     : never
   : []
 
@@ -32,23 +93,62 @@ export type ExtractTypes<T extends readonly Tag<Any>[]> = T extends readonly [
 export type TupleToUnion<T extends unknown[]> = T[number]
 
 /**
- * Convert a Tag array to a union of wrapped types
+ * Extract the identity type a dependency requires
+ * Optional dependencies are not required
+ */
+export type TagId<T> =
+  T extends Optional<Any, Any>
+    ? never
+    : T extends Lazy<Any, infer Id>
+      ? Id
+      : T extends Tag<Any, infer Id>
+        ? Id
+        : never
+
+/**
+ * Convert a dependency array to a union of the identity types it requires
+ */
+export type TagsToUnion<T extends readonly Dependency[]> = TagId<T[number]>
+
+/**
+ * Keys of a keyed tag that are provided as Services
  */
-export type TagsToUnion<T extends readonly Tag<Any>[]> = TupleToUnion<
-  ExtractTypes<T>
->
+export type ProvidedKeys<Services, T, K extends string> = K extends unknown
+  ? Keyed<T, K> extends Services
+    ? K
+    : never
+  : never
+
+/**
+ * Convert identity types back to service types
+ */
+export type ServiceType<Id> = Id extends Keyed<infer T, Any> ? T : Id
 
 /**
  * Service lifecycle scope
+ * - singleton: one instance per container, shared with child scopes
+ * - scoped: one instance per container or child scope
+ * - transient: a new instance for every resolution
  */
-export type Scope = 'singleton' | 'transient'
+export type Scope = 'singleton' | 'scoped' | 'transient'
 
 /**
- * Options for Layer.factory
+ * Class declaring its tag and its constructor's dependencies as static
+ * members, see Layer.service
+ */
+export interface ServiceClass<T, Id, D extends readonly Dependency[]> {
+  new (...deps: ExtractTypes<D>): T
+  readonly tag: Tag<T, Id>
+  readonly dependencies: D
+}
+
+/**
+ * Options for Layer.factory and Layer.effect
  */
 export interface LayerOptions<T> {
   /**
    * Cleanup function called when container is disposed
+   * Defaults to Symbol.asyncDispose or Symbol.dispose of the instance, if any
    */
   dispose?: (instance: T) => void | Promise<void>
 
@@ -56,18 +156,187 @@ export interface LayerOptions<T> {
    * Service lifecycle scope (default: 'singleton')
    */
   scope?: Scope
+
+  /**
+   * Create the singleton when the container is created instead of on first
+   * use (default: false)
+   */
+  eager?: boolean
+
+  /**
+   * Milliseconds an asynchronous factory call may take before it fails with
+   * a TimeoutError (default: no timeout). The service can then only be
+   * resolved asynchronously.
+   */
+  timeout?: number
+
+  /**
+   * Call an asynchronous factory again when it fails or times out. The
+   * service can then only be resolved asynchronously.
+   */
+  retry?: RetryOptions
+
+  /**
+   * Milliseconds an asynchronous disposer may take before it fails with a
+   * TimeoutError (default: no timeout)
+   */
+  disposeTimeout?: number
+}
+
+/**
+ * Retry policy of a factory, see LayerOptions
+ */
+export interface RetryOptions {
+  /** Number of calls, including the first one */
+  attempts: number
+
+  /**
+   * Milliseconds to wait before the next call, or a function of the number
+   * of the failed call, starting at 1 (default: 0)
+   */
+  backoff?: number | ((attempt: number) => number)
 }
 
+/**
+ * How Layer.merge handles a tag provided by more than one of its layers
+ * - last-wins: the last layer providing the tag is used
+ * - first-wins: the first layer providing the tag is used
+ * - error: creating a container fails with a DuplicateTagError
+ */
+export type DuplicatePolicy = 'last-wins' | 'first-wins' | 'error'
+
 /**
  * Options for Layer.merge
  */
 export interface MergeOptions {
   /**
-   * Allow duplicate tags (default: false)
+   * Duplicate tag policy (default: 'error')
+   * Applies to tags provided by more than one layer of this merge; nested
+   * merges apply their own policy
+   */
+  duplicates?: DuplicatePolicy
+
+  /**
+   * Allow duplicate tags, same as `duplicates: 'last-wins'`
+   * @deprecated Use `duplicates: 'last-wins'` instead
    */
   allowDuplicates?: boolean
 }
 
+/**
+ * A service being created, passed to hooks and interceptors
+ */
+export interface ResolutionContext {
+  tag: Tag<unknown>
+  scope: Scope
+  /** Tags that led to the service, ending with its own */
+  path: readonly Tag<unknown>[]
+}
+
+/**
+ * A disposed instance, passed to the onDispose hook
+ */
+export interface DisposeContext {
+  tag: Tag<unknown>
+  scope: Scope
+  instance: unknown
+  /** Milliseconds the disposer took */
+  duration: number
+  /** What the disposer threw, or `undefined` if it succeeded */
+  error: unknown
+}
+
+/**
+ * Callbacks observing the services of a container
+ * Resolution hooks only fire when an instance is created, not when an
+ * existing instance is returned. Durations include creating dependencies.
+ */
+export interface ContainerHooks {
+  onResolveStart?: (context: ResolutionContext) => void
+  onResolved?: (
+    context: ResolutionContext & { instance: unknown; duration: number },
+  ) => void
+  onError?: (
+    context: ResolutionContext & { error: unknown; duration: number },
+  ) => void
+  onDispose?: (context: DisposeContext) => void
+}
+
+/**
+ * Wraps the instances of a service, see intercept()
+ */
+export interface Interceptor {
+  readonly tag: Tag<unknown>
+  readonly wrap: (instance: unknown, context: ResolutionContext) => unknown
+}
+
+/**
+ * Options for createContainer and createContainerAsync
+ */
+export interface ContainerOptions {
+  hooks?: ContainerHooks
+  /** Applied in order to every instance of their service */
+  interceptors?: readonly Interceptor[]
+  /** Records a span for every factory and disposer call */
+  tracer?: Tracer
+}
+
+/**
+ * A service of a container, see container.describe()
+ */
+export interface ServiceDescription {
+  tag: Tag<unknown>
+  scope: Scope
+  /** Tags of the dependencies, including optional and lazy ones */
+  dependencies: Tag<unknown>[]
+  /**
+   * Whether a disposer runs for the service; for instances disposed through
+   * Symbol.dispose or Symbol.asyncDispose, only known once instantiated
+   */
+  disposable: boolean
+  /** Whether an instance of the service is alive in the container */
+  instantiated: boolean
+}
+
+/**
+ * A service of a ServiceGraph
+ */
+export interface GraphNode {
+  tag: Tag<unknown>
+  scope: Scope
+  /**
+   * Kind of layer providing the service; 'multi' for multi-binding tags and
+   * 'decorate' for services wrapped by Layer.decorate
+   */
+  origin: 'value' | 'factory' | 'effect' | 'multi' | 'decorate'
+  /** Only provided to other layers through Layer.provide */
+  hidden: boolean
+}
+
+/**
+ * A dependency of a ServiceGraph, from the dependent to its dependency
+ */
+export interface GraphEdge {
+  from: Tag<unknown>
+  to: Tag<unknown>
+  /**
+   * Indexes of the nodes in `nodes`, since services private to different
+   * Layer.provide calls may have the same tag
+   */
+  fromIndex: number
+  toIndex: number
+  kind: 'required' | 'optional' | 'lazy'
+}
+
+/**
+ * Services of a layer and their dependencies, see Layer.graph()
+ * Edges to services the layer does not provide are left out
+ */
+export interface ServiceGraph {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+}
+
 /**
  * Extract the Out type from a Layer
  */
@@ -114,6 +383,22 @@ export type MergeIn<
     : never
   : never
 
+/**
+ * Compile-time error for a layer whose requirements are not all provided
+ * The property type lists the services that are still missing
+ */
+export interface UnsatisfiedRequirements<In> {
+  readonly 'Layer has unsatisfied requirements': In
+}
+
+/**
+ * Resolve to `unknown` when a layer requires nothing, otherwise to an error
+ * type naming the missing services
+ */
+export type CheckRequirements<In> = [In] extends [never]
+  ? unknown
+  : UnsatisfiedRequirements<In>
+
 /**
  * Container<Services> - Type-safe container
  * @param Services - Union of services this container provides
@@ -123,13 +408,112 @@ export interface Container<Services = never> {
    * Get a service instance by tag
    * Only accepts tags for services that are in the Services union
    */
-  get<T extends Services>(tag: Tag<T>): T
+  get<T, Id extends Services>(tag: Tag<T, Id>): T
+
+  /**
+   * Get a keyed service instance by its tag and key
+   * Only accepts keys that are provided in the Services union
+   */
+  get<T, K extends string>(
+    tag: KeyedTag<T, K>,
+    key: ProvidedKeys<Services, T, K>,
+  ): T
+
+  /**
+   * Get a service instance by tag, awaiting asynchronous factories
+   * Dependencies are resolved first, independent ones concurrently
+   */
+  getAsync<T, Id extends Services>(tag: Tag<T, Id>): Promise<T>
+
+  /**
+   * Get a keyed service instance by its tag and key, awaiting asynchronous
+   * factories
+   */
+  getAsync<T, K extends string>(
+    tag: KeyedTag<T, K>,
+    key: ProvidedKeys<Services, T, K>,
+  ): Promise<T>
+
+  /**
+   * Check whether the container provides a service
+   * Accepts any tag, e.g. for services that are only provided behind a
+   * feature flag
+   */
+  has(tag: Tag<unknown, Any>): boolean
+
+  /**
+   * Check whether the container provides a keyed service for the key
+   */
+  has<T, K extends string>(tag: KeyedTag<T, K>, key: K): boolean
+
+  /**
+   * Tags of every service the container provides
+   */
+  tags(): Tag<unknown, Services>[]
+
+  /**
+   * Describe a service: its scope, dependencies, and whether it is disposable
+   * and instantiated
+   */
+  describe<T, Id extends Services>(tag: Tag<T, Id>): ServiceDescription
+
+  /**
+   * Describe a keyed service
+   */
+  describe<T, K extends string>(
+    tag: KeyedTag<T, K>,
+    key: ProvidedKeys<Services, T, K>,
+  ): ServiceDescription
+
+  /**
+   * Tags of the services with live instances, in creation order
+   * A child scope also lists the singletons it shares
+   */
+  instantiated(): Tag<unknown, Services>[]
+
+  /**
+   * Create a child scope
+   * The child shares singletons with this container, keeps its own scoped
+   * instances, and disposes them when the child is disposed
+   */
+  createScope(): Container<Services>
+
+  /**
+   * Create every singleton now, dependencies first
+   * Every singleton is tried even if some fail; failures are rejected
+   * together as an InitializationError.
+   */
+  init(): Promise<void>
+
+  /**
+   * Describe the services of the container and their dependencies
+   */
+  graph(): ServiceGraph
+
+  /**
+   * Dispose a transient instance before the container is disposed
+   * The instance is no longer tracked and will not be disposed again
+   */
+  release<T extends ServiceType<Services>>(instance: T): Promise<void>
 
   /**
    * Dispose all resources
+   * Every disposer runs even if some fail; failures are rejected together as
+   * a DisposalError. The container cannot be used afterwards.
    */
   dispose(): Promise<void>
 
+  /**
+   * Dispose all resources, for `await using` declarations
+   */
+  [Symbol.asyncDispose](): Promise<void>
+
+  /**
+   * Dispose all resources synchronously, for `using` declarations
+   * Fails for services whose disposer is asynchronous
+   */
+  [Symbol.dispose](): void
+
   /** Brand property */
   readonly _container: true
 }
@@ -0,0 +1,238 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createContainer, createContainerAsync } from '../src/container.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+describe('createContainer getAsync', () => {
+  it('should await async factories before passing them to dependents', async () => {
+    const DatabaseTag = tag<{ url: string }>('Database')
+    const UserServiceTag = tag<{ db: { url: string } }>('UserService')
+
+    const databaseLayer = Layer.effect(DatabaseTag, async () => {
+      await delay(1)
+      return { url: 'postgres://localhost' }
+    })
+    const userServiceLayer = Layer.factory(
+      UserServiceTag,
+      [DatabaseTag],
+      (db) => ({ db }),
+    )
+
+    const container = createContainer(
+      Layer.merge(databaseLayer, userServiceLayer),
+    )
+    const userService = await container.getAsync(UserServiceTag)
+
+    expect(userService.db).toEqual({ url: 'postgres://localhost' })
+    expect(container.get(UserServiceTag)).toBe(userService)
+  })
+})
+
+describe('createContainer getAsync', () => {
+  it('should initialize independent branches concurrently', async () => {
+    const events: string[] = []
+
+    const ATag = tag<string>('A')
+    const BTag = tag<string>('B')
+    const AppTag = tag<string>('App')
+
+    const aLayer = Layer.effect(ATag, async () => {
+      events.push('a:start')
+      await delay(5)
+      events.push('a:end')
+      return 'a'
+    })
+    const bLayer = Layer.effect(BTag, async () => {
+      events.push('b:start')
+      await delay(1)
+      events.push('b:end')
+      return 'b'
+    })
+    const appLayer = Layer.effect(AppTag, [ATag, BTag], (a, b) => {
+      events.push('app')
+      return Promise.resolve(`${a}${b}`)
+    })
+
+    const container = createContainer(Layer.merge(aLayer, bLayer, appLayer))
+
+    await expect(container.getAsync(AppTag)).resolves.toBe('ab')
+    expect(events).toEqual(['a:start', 'b:start', 'b:end', 'a:end', 'app'])
+  })
+})
+
+describe('createContainer getAsync', () => {
+  it('should share one initialization between concurrent requests', async () => {
+    const DatabaseTag = tag<{ id: number }>('Database')
+    let count = 0
+
+    const databaseLayer = Layer.effect(DatabaseTag, async () => {
+      count++
+      await delay(1)
+      return { id: count }
+    })
+
+    const container = createContainer(databaseLayer)
+    const [db1, db2] = await Promise.all([
+      container.getAsync(DatabaseTag),
+      container.getAsync(DatabaseTag),
+    ])
+
+    expect(db1).toBe(db2)
+    expect(count).toBe(1)
+  })
+
+  it('should create new async instances for transient scope', async () => {
+    const ConnectionTag = tag<{ id: number }>('Connection')
+    let count = 0
+
+    const connectionLayer = Layer.effect(
+      ConnectionTag,
+      [],
+      () => Promise.resolve({ id: ++count }),
+      { scope: 'transient' },
+    )
+
+    const container = createContainer(connectionLayer)
+    const [c1, c2] = await Promise.all([
+      container.getAsync(ConnectionTag),
+      container.getAsync(ConnectionTag),
+    ])
+
+    expect(c1).not.toBe(c2)
+    expect(count).toBe(2)
+  })
+})
+
+describe('createContainer getAsync', () => {
+  it('should resolve value layers', async () => {
+    const ConfigTag = tag<{ port: number }>('Config')
+
+    const container = createContainer(Layer.value(ConfigTag, { port: 3000 }))
+
+    await expect(container.getAsync(ConfigTag)).resolves.toEqual({ port: 3000 })
+  })
+
+  it('should return singletons already resolved synchronously', async () => {
+    const LoggerTag = tag<{ log: () => void }>('Logger')
+
+    const container = createContainer(
+      Layer.factory(LoggerTag, () => ({ log: () => {} })),
+    )
+    const logger = container.get(LoggerTag)
+
+    await expect(container.getAsync(LoggerTag)).resolves.toBe(logger)
+  })
+
+  it('should retry initialization after a factory rejects', async () => {
+    const DatabaseTag = tag<{ ok: boolean }>('Database')
+    let attempts = 0
+
+    const databaseLayer = Layer.effect(DatabaseTag, () => {
+      attempts++
+      if (attempts === 1) {
+        return Promise.reject(new Error('connection refused'))
+      }
+      return Promise.resolve({ ok: true })
+    })
+
+    const container = createContainer(databaseLayer)
+
+    await expect(container.getAsync(DatabaseTag)).rejects.toThrow(
+      'connection refused',
+    )
+    await expect(container.getAsync(DatabaseTag)).resolves.toEqual({ ok: true })
+  })
+})
+
+describe('createContainer getAsync', () => {
+  it('should throw when an async service is resolved synchronously', () => {
+    const DatabaseTag = tag<{ url: string }>('Database')
+
+    const container = createContainer(
+      Layer.effect(DatabaseTag, () => Promise.resolve({ url: 'db' })),
+    )
+
+    expect(() => container.get(DatabaseTag)).toThrow(
+      'Service is asynchronous: Database',
+    )
+  })
+  it('should not create a second singleton while getAsync() creates it', async () => {
+    const DatabaseTag = tag<{ id: number }>('Database')
+    let created = 0
+    const dispose = vi.fn()
+
+    const container = createContainer(
+      Layer.factory(DatabaseTag, () => ({ id: ++created }), { dispose }),
+    )
+    const pending = container.getAsync(DatabaseTag)
+
+    expect(() => container.get(DatabaseTag)).toThrow(
+      'Service is being created asynchronously: Database',
+    )
+    const database = await pending
+    expect(container.get(DatabaseTag)).toBe(database)
+
+    await container.dispose()
+    expect(created).toBe(1)
+    expect(dispose).toHaveBeenCalledExactlyOnceWith(database)
+  })
+})
+
+describe('createContainerAsync', () => {
+  it('should resolve async singletons before returning the container', async () => {
+    const ConfigTag = tag<{ url: string }>('Config')
+    const DatabaseTag = tag<{ url: string }>('Database')
+    const RepositoryTag = tag<{ db: { url: string } }>('Repository')
+
+    const configLayer = Layer.value(ConfigTag, { url: 'postgres://db' })
+    const databaseLayer = Layer.effect(DatabaseTag, [ConfigTag], (config) =>
+      Promise.resolve({ url: config.url }),
+    )
+    const repositoryLayer = Layer.factory(
+      RepositoryTag,
+      [DatabaseTag],
+      (db) => ({ db }),
+    )
+
+    const container = await createContainerAsync(
+      Layer.merge(configLayer, databaseLayer, repositoryLayer),
+    )
+
+    expect(container.get(DatabaseTag)).toEqual({ url: 'postgres://db' })
+    expect(container.get(RepositoryTag).db).toBe(container.get(DatabaseTag))
+  })
+})
+
+describe('createContainerAsync', () => {
+  it('should not initialize transient async services', async () => {
+    const ConnectionTag = tag<{ id: number }>('Connection')
+    let count = 0
+
+    const connectionLayer = Layer.effect(
+      ConnectionTag,
+      () => Promise.resolve({ id: ++count }),
+      { scope: 'transient' },
+    )
+
+    await createContainerAsync(connectionLayer)
+
+    expect(count).toBe(0)
+  })
+
+  it('should reject when an async factory fails', async () => {
+    const DatabaseTag = tag<{ url: string }>('Database')
+
+    const databaseLayer = Layer.effect(DatabaseTag, () =>
+      Promise.reject(new Error('connection refused')),
+    )
+
+    await expect(createContainerAsync(databaseLayer)).rejects.toThrow(
+      'connection refused',
+    )
+  })
+})
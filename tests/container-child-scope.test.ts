@@ -0,0 +1,206 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import { DisposalError } from '../src/errors.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface Database {
+  id: number
+}
+
+interface Transaction {
+  id: number
+  db: Database
+}
+
+const DatabaseTag = tag<Database>('Database')
+const TransactionTag = tag<Transaction>('Transaction')
+
+function createAppLayer(dispose?: {
+  database?: () => void
+  transaction?: (tx: Transaction) => void
+}) {
+  let databaseCount = 0
+  let transactionCount = 0
+
+  return Layer.merge(
+    Layer.factory(DatabaseTag, () => ({ id: ++databaseCount }), {
+      dispose: dispose?.database,
+    }),
+    Layer.factory(
+      TransactionTag,
+      [DatabaseTag],
+      (db) => ({ id: ++transactionCount, db }),
+      { scope: 'scoped', dispose: dispose?.transaction },
+    ),
+  )
+}
+
+describe('createContainer createScope', () => {
+  it('should cache scoped services per child scope', () => {
+    const container = createContainer(createAppLayer())
+
+    const scope1 = container.createScope()
+    const scope2 = container.createScope()
+
+    const tx1 = scope1.get(TransactionTag)
+    const tx2 = scope2.get(TransactionTag)
+
+    expect(scope1.get(TransactionTag)).toBe(tx1)
+    expect(tx1).not.toBe(tx2)
+    expect(tx1.db).toBe(tx2.db)
+    expect(container.get(DatabaseTag)).toBe(tx1.db)
+  })
+
+  it('should cache scoped services resolved from the root container', async () => {
+    const container = createContainer(createAppLayer())
+
+    const tx = container.get(TransactionTag)
+
+    expect(container.get(TransactionTag)).toBe(tx)
+    await expect(container.getAsync(TransactionTag)).resolves.toBe(tx)
+    expect(container.createScope().get(TransactionTag)).not.toBe(tx)
+  })
+
+  it('should share singletons with nested scopes', async () => {
+    const container = createContainer(createAppLayer())
+
+    const nested = container.createScope().createScope()
+    const tx = await nested.getAsync(TransactionTag)
+
+    expect(tx.db).toBe(container.get(DatabaseTag))
+  })
+})
+
+describe('createContainer createScope dispose', () => {
+  it('should dispose scoped services with their child scope', async () => {
+    const disposeDatabase = vi.fn()
+    const disposeTransaction = vi.fn()
+
+    const container = createContainer(
+      createAppLayer({
+        database: disposeDatabase,
+        transaction: disposeTransaction,
+      }),
+    )
+    const scope = container.createScope()
+    const tx = scope.get(TransactionTag)
+
+    await scope.dispose()
+
+    expect(disposeTransaction).toHaveBeenCalledWith(tx)
+    expect(disposeDatabase).not.toHaveBeenCalled()
+    expect(() => scope.get(TransactionTag)).toThrow(
+      'Container has been disposed',
+    )
+
+    await container.dispose()
+
+    expect(disposeTransaction).toHaveBeenCalledTimes(1)
+    expect(disposeDatabase).toHaveBeenCalledTimes(1)
+  })
+
+  it('should dispose transient instances created through a child scope', async () => {
+    const RequestTag = tag<{ id: number }>('Request')
+    const disposeSpy = vi.fn()
+
+    const container = createContainer(
+      Layer.factory(RequestTag, () => ({ id: 1 }), {
+        scope: 'transient',
+        dispose: disposeSpy,
+      }),
+    )
+    const scope = container.createScope()
+    const request = scope.get(RequestTag)
+
+    await scope[Symbol.asyncDispose]()
+
+    expect(disposeSpy).toHaveBeenCalledWith(request)
+  })
+})
+
+describe('createContainer createScope dispose', () => {
+  it('should dispose open child scopes before the parent', async () => {
+    const order: string[] = []
+
+    const container = createContainer(
+      createAppLayer({
+        database: () => order.push('database'),
+        transaction: (tx) => order.push(`transaction ${tx.id}`),
+      }),
+    )
+    container.createScope().get(TransactionTag)
+    container.createScope().createScope().get(TransactionTag)
+
+    await container.dispose()
+
+    expect(order).toEqual(['transaction 1', 'transaction 2', 'database'])
+    expect(() => container.createScope()).toThrow('Container has been disposed')
+  })
+
+  it('should report failures of child scopes together', async () => {
+    const container = createContainer(
+      createAppLayer({
+        database: () => {
+          throw new Error('database failed')
+        },
+        transaction: () => {
+          throw new Error('transaction failed')
+        },
+      }),
+    )
+    container.createScope().get(TransactionTag)
+
+    const error = await container.dispose().catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(DisposalError)
+    expect((error as DisposalError).message).toBe(
+      'Failed to dispose services: Transaction, Database',
+    )
+  })
+})
+
+describe('createContainer createScope Symbol.dispose', () => {
+  it('should dispose child scopes synchronously', () => {
+    const order: string[] = []
+
+    const container = createContainer(
+      createAppLayer({
+        database: () => order.push('database'),
+        transaction: (tx) => order.push(`transaction ${tx.id}`),
+      }),
+    )
+
+    {
+      using scope = container.createScope()
+      scope.get(TransactionTag)
+    }
+    container.createScope().get(TransactionTag)
+
+    let error: unknown
+    try {
+      container[Symbol.dispose]()
+    } catch (e) {
+      error = e
+    }
+
+    expect(error).toBeUndefined()
+    expect(order).toEqual(['transaction 1', 'transaction 2', 'database'])
+  })
+
+  it('should report failures of child scopes synchronously', () => {
+    const container = createContainer(
+      createAppLayer({
+        transaction: () => {
+          throw new Error('transaction failed')
+        },
+      }),
+    )
+    container.createScope().get(TransactionTag)
+
+    expect(() => container[Symbol.dispose]()).toThrow(
+      'Failed to dispose services: Transaction',
+    )
+  })
+})
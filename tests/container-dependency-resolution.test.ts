@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest'
 
-import { createContainer } from '../src/container.ts'
+import { createContainer, createContainerAsync } from '../src/container.ts'
 import { Layer } from '../src/index.ts'
 import { tag } from '../src/tag.ts'
 
@@ -55,10 +55,32 @@ describe('createContainer dependency resolution', () => {
       (db) => ({ getUser: () => db.find() }),
     )
 
-    const container = createContainer(userServiceLayer)
+    // @ts-expect-error - Database is required but not provided
+    expect(() => createContainer(userServiceLayer)).toThrow(
+      'Service not found: Database (UserService -> Database)',
+    )
+  })
+
+  it('should list every missing service', async () => {
+    const UserServiceTag = tag<{ getUser: () => void }>('UserService')
+    const DatabaseTag = tag<{ find: () => void }>('Database')
+    const CacheTag = tag<{ get: () => void }>('Cache')
+    const LoggerTag = tag<{ log: () => void }>('Logger')
 
-    expect(() => container.get(UserServiceTag)).toThrow(
-      'Service not found: Database',
+    const userServiceLayer = Layer.factory(
+      UserServiceTag,
+      [DatabaseTag, CacheTag, LoggerTag],
+      (db) => ({ getUser: () => db.find() }),
+    )
+    const loggerLayer = Layer.value(LoggerTag, { log: () => {} })
+
+    await expect(
+      createContainerAsync(
+        // @ts-expect-error - Database and Cache are required but not provided
+        Layer.merge(userServiceLayer, loggerLayer),
+      ),
+    ).rejects.toThrow(
+      'Service not found: Database (UserService -> Database), Cache (UserService -> Cache)',
     )
   })
 })
@@ -0,0 +1,177 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import { AsyncServiceError, DisposalError } from '../src/errors.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+class Connection implements AsyncDisposable {
+  closed = false;
+
+  [Symbol.asyncDispose](): Promise<void> {
+    this.closed = true
+    return Promise.resolve()
+  }
+}
+
+class FileHandle implements Disposable {
+  closed = false;
+
+  [Symbol.dispose](): void {
+    this.closed = true
+  }
+}
+
+describe('createContainer await using', () => {
+  it('should dispose the container at the end of the block', async () => {
+    const ConnectionTag = tag<Connection>('Connection')
+    let connection: Connection | undefined
+
+    {
+      await using container = createContainer(
+        Layer.factory(ConnectionTag, () => new Connection()),
+      )
+      connection = container.get(ConnectionTag)
+      expect(connection.closed).toBe(false)
+    }
+
+    expect(connection.closed).toBe(true)
+  })
+
+  it('should dispose synchronously with using', () => {
+    const FileTag = tag<FileHandle>('File')
+    let file: FileHandle | undefined
+
+    {
+      using container = createContainer(
+        Layer.factory(FileTag, () => new FileHandle()),
+      )
+      file = container.get(FileTag)
+    }
+
+    expect(file.closed).toBe(true)
+  })
+})
+
+describe('createContainer resource disposal', () => {
+  it('should prefer an explicit dispose option over Symbol.asyncDispose', async () => {
+    const ConnectionTag = tag<Connection>('Connection')
+    const disposeSpy = vi.fn()
+
+    const container = createContainer(
+      Layer.factory(ConnectionTag, () => new Connection(), {
+        dispose: disposeSpy,
+      }),
+    )
+    const connection = container.get(ConnectionTag)
+
+    await container[Symbol.asyncDispose]()
+
+    expect(disposeSpy).toHaveBeenCalledWith(connection)
+    expect(connection.closed).toBe(false)
+  })
+
+  it('should not dispose resources provided by value layers', async () => {
+    const FileTag = tag<FileHandle>('File')
+    const file = new FileHandle()
+
+    const container = createContainer(Layer.value(FileTag, file))
+    container.get(FileTag)
+
+    await container.dispose()
+
+    expect(file.closed).toBe(false)
+  })
+
+  it('should dispose Symbol.dispose resources asynchronously', async () => {
+    const FileTag = tag<FileHandle>('File')
+
+    const container = createContainer(
+      Layer.factory(FileTag, () => new FileHandle()),
+    )
+    const file = container.get(FileTag)
+
+    await container.dispose()
+
+    expect(file.closed).toBe(true)
+  })
+})
+
+describe('createContainer Symbol.dispose', () => {
+  it('should dispose dependents before their dependencies', () => {
+    const order: string[] = []
+
+    const DatabaseTag = tag<{ name: string }>('Database')
+    const RepositoryTag = tag<{ name: string }>('Repository')
+
+    const databaseLayer = Layer.factory(DatabaseTag, () => ({ name: 'db' }), {
+      dispose: () => {
+        order.push('database')
+      },
+    })
+    const repositoryLayer = Layer.factory(
+      RepositoryTag,
+      [DatabaseTag],
+      () => ({ name: 'repository' }),
+      {
+        dispose: () => {
+          order.push('repository')
+        },
+      },
+    )
+
+    const container = createContainer(
+      Layer.merge(databaseLayer, repositoryLayer),
+    )
+    container.get(DatabaseTag)
+    container.get(RepositoryTag)
+
+    container[Symbol.dispose]()
+    container[Symbol.dispose]()
+
+    expect(order).toEqual(['repository', 'database'])
+    expect(() => container.get(DatabaseTag)).toThrow(
+      'Container has been disposed',
+    )
+  })
+})
+
+describe('createContainer Symbol.dispose', () => {
+  it('should report asynchronous disposers as failures', () => {
+    const CacheTag = tag<{ name: string }>('Cache')
+    const ConnectionTag = tag<Connection>('Connection')
+    const LoggerTag = tag<{ name: string }>('Logger')
+
+    const container = createContainer(
+      Layer.merge(
+        Layer.factory(CacheTag, () => ({ name: 'cache' }), {
+          dispose: () => Promise.reject(new Error('cache unreachable')),
+        }),
+        Layer.factory(ConnectionTag, () => new Connection()),
+        Layer.factory(LoggerTag, () => ({ name: 'logger' })),
+      ),
+    )
+    container.get(CacheTag)
+    const connection = container.get(ConnectionTag)
+    container.get(LoggerTag)
+
+    let error: unknown
+    try {
+      container[Symbol.dispose]()
+    } catch (e) {
+      error = e
+    }
+
+    expect(error).toBeInstanceOf(DisposalError)
+    expect((error as DisposalError).message).toBe(
+      'Failed to dispose services: Cache, Connection',
+    )
+    expect((error as DisposalError).errors[0]).toBeInstanceOf(AsyncServiceError)
+    expect((error as DisposalError).errors[0]).toMatchObject({
+      message:
+        'Service has an asynchronous disposer: Cache. Use await using or container.dispose() instead.',
+      reason: 'disposer',
+    })
+    expect(connection.closed).toBe(true)
+  })
+})
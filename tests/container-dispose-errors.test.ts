@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import { DisposalError } from '../src/errors.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+describe('createContainer dispose errors', () => {
+  it('should run every disposer and aggregate failures', async () => {
+    const CacheTag = tag<{ name: string }>('Cache')
+    const BrokerTag = tag<{ name: string }>('MessageBroker')
+    const SessionTag = tag<{ name: string }>('Session')
+    const brokerClose = vi.fn()
+
+    const cacheLayer = Layer.factory(CacheTag, () => ({ name: 'cache' }), {
+      dispose: () => Promise.reject(new Error('cache unreachable')),
+    })
+    const brokerLayer = Layer.factory(BrokerTag, () => ({ name: 'broker' }), {
+      dispose: brokerClose,
+    })
+    const sessionLayer = Layer.factory(
+      SessionTag,
+      () => ({ name: 'session' }),
+      {
+        dispose: () => {
+          throw new Error('session locked')
+        },
+      },
+    )
+
+    const container = createContainer(
+      Layer.merge(cacheLayer, brokerLayer, sessionLayer),
+    )
+    container.get(CacheTag)
+    container.get(BrokerTag)
+    container.get(SessionTag)
+
+    const error = await container.dispose().catch((e: unknown) => e)
+
+    expect(brokerClose).toHaveBeenCalledTimes(1)
+    expect(error).toBeInstanceOf(DisposalError)
+    expect(error).toBeInstanceOf(AggregateError)
+
+    const disposalError = error as DisposalError
+    expect(disposalError.name).toBe('DisposalError')
+    expect(disposalError.message).toBe(
+      'Failed to dispose services: Cache, Session',
+    )
+    expect(disposalError.failures.map((f) => f.tag)).toEqual([
+      CacheTag,
+      SessionTag,
+    ])
+    expect(disposalError.errors).toEqual([
+      new Error('cache unreachable'),
+      new Error('session locked'),
+    ])
+  })
+})
+
+describe('createContainer dispose errors', () => {
+  it('should dispose dependencies even when a dependent fails', async () => {
+    const DatabaseTag = tag<{ name: string }>('Database')
+    const RepositoryTag = tag<{ name: string }>('Repository')
+    const closeSpy = vi.fn()
+
+    const databaseLayer = Layer.factory(DatabaseTag, () => ({ name: 'db' }), {
+      dispose: closeSpy,
+    })
+    const repositoryLayer = Layer.factory(
+      RepositoryTag,
+      [DatabaseTag],
+      () => ({ name: 'repository' }),
+      {
+        dispose: () => {
+          throw new Error('flush failed')
+        },
+      },
+    )
+
+    const container = createContainer(
+      Layer.merge(databaseLayer, repositoryLayer),
+    )
+    container.get(RepositoryTag)
+
+    await expect(container.dispose()).rejects.toThrow(
+      'Failed to dispose services: Repository',
+    )
+    expect(closeSpy).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('createContainer disposed state', () => {
+  it('should mark the container disposed even if a disposer fails', async () => {
+    const CacheTag = tag<{ name: string }>('Cache')
+    const disposeSpy = vi.fn(() => {
+      throw new Error('cache unreachable')
+    })
+
+    const container = createContainer(
+      Layer.factory(CacheTag, () => ({ name: 'cache' }), {
+        dispose: disposeSpy,
+      }),
+    )
+    container.get(CacheTag)
+
+    await expect(container.dispose()).rejects.toThrow(DisposalError)
+    await expect(container.dispose()).rejects.toThrow(DisposalError)
+    expect(disposeSpy).toHaveBeenCalledTimes(1)
+
+    expect(() => container.get(CacheTag)).toThrow('Container has been disposed')
+    await expect(container.getAsync(CacheTag)).rejects.toThrow(
+      'Container has been disposed',
+    )
+  })
+})
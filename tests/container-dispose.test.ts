@@ -85,3 +85,134 @@ describe('createContainer dispose', () => {
     await expect(container.dispose()).resolves.toBeUndefined()
   })
 })
+
+describe('createContainer dispose', () => {
+  it('should dispose dependents before their dependencies', async () => {
+    const order: string[] = []
+
+    const ConfigTag = tag<{ name: string }>('Config')
+    const DatabaseTag = tag<{ name: string }>('Database')
+    const RepositoryTag = tag<{ name: string }>('Repository')
+    const ServiceTag = tag<{ name: string }>('Service')
+
+    const configLayer = Layer.value(ConfigTag, { name: 'config' })
+    const databaseLayer = Layer.factory(
+      DatabaseTag,
+      [ConfigTag],
+      () => ({ name: 'db' }),
+      {
+        dispose: () => {
+          order.push('database')
+        },
+      },
+    )
+
+    const repositoryLayer = Layer.factory(
+      RepositoryTag,
+      [DatabaseTag],
+      () => ({ name: 'repository' }),
+      {
+        dispose: async () => {
+          await new Promise((resolve) => setTimeout(resolve, 5))
+          order.push('repository')
+        },
+      },
+    )
+
+    const serviceLayer = Layer.factory(
+      ServiceTag,
+      [RepositoryTag, DatabaseTag],
+      () => ({ name: 'service' }),
+    )
+
+    const container = createContainer(
+      Layer.merge(configLayer, databaseLayer, repositoryLayer, serviceLayer),
+    )
+    container.get(ServiceTag)
+
+    await container.dispose()
+
+    expect(order).toEqual(['repository', 'database'])
+  })
+})
+
+describe('createContainer dispose', () => {
+  it('should dispose services without shared edges concurrently', async () => {
+    const events: string[] = []
+
+    const SharedTag = tag<{ name: string }>('Shared')
+    const SlowTag = tag<{ name: string }>('Slow')
+    const FastTag = tag<{ name: string }>('Fast')
+
+    const disposer = (name: string, ms: number) => async () => {
+      events.push(`${name}:start`)
+      await new Promise((resolve) => setTimeout(resolve, ms))
+      events.push(`${name}:end`)
+    }
+
+    const sharedLayer = Layer.factory(SharedTag, () => ({ name: 'shared' }), {
+      dispose: disposer('shared', 0),
+    })
+    const slowLayer = Layer.factory(
+      SlowTag,
+      [SharedTag],
+      () => ({ name: 'slow' }),
+      { dispose: disposer('slow', 10) },
+    )
+    const fastLayer = Layer.factory(
+      FastTag,
+      [SharedTag],
+      () => ({ name: 'fast' }),
+      { dispose: disposer('fast', 1) },
+    )
+
+    const container = createContainer(
+      Layer.merge(sharedLayer, slowLayer, fastLayer),
+    )
+    container.get(SlowTag)
+    container.get(FastTag)
+
+    await container.dispose()
+
+    expect(events).toEqual([
+      'slow:start',
+      'fast:start',
+      'fast:end',
+      'slow:end',
+      'shared:start',
+      'shared:end',
+    ])
+  })
+})
+
+describe('createContainer dispose', () => {
+  it('should dispose instances getAsync() is still creating', async () => {
+    const DatabaseTag = tag<{ id: number }>('Database')
+    const ConnectionTag = tag<{ id: number }>('Connection')
+    const dispose = vi.fn()
+    const delayed = (id: number) => () =>
+      new Promise<{ id: number }>((resolve) => {
+        setTimeout(() => resolve({ id }), 10)
+      })
+
+    const container = createContainer(
+      Layer.merge(
+        Layer.effect(DatabaseTag, delayed(1), { dispose }),
+        Layer.effect(ConnectionTag, delayed(2), {
+          scope: 'transient',
+          dispose,
+        }),
+      ),
+    )
+
+    const database = container.getAsync(DatabaseTag)
+    const connection = container.getAsync(ConnectionTag)
+    await container.dispose()
+
+    await expect(database).resolves.toEqual({ id: 1 })
+    await expect(connection).resolves.toEqual({ id: 2 })
+    expect(dispose).toHaveBeenCalledTimes(2)
+    expect(dispose).toHaveBeenCalledWith({ id: 1 })
+    expect(dispose).toHaveBeenCalledWith({ id: 2 })
+  })
+})
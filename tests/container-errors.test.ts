@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import {
+  AsyncServiceError,
+  ContainerDisposedError,
+  LayerMapError,
+  ReleaseError,
+  ScopeViolationError,
+} from '../src/errors.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+const AppTag = tag<{ start: () => void }>('App')
+const UserServiceTag = tag<{ getUser: () => void }>('UserService')
+const DatabaseTag = tag<{ find: () => void }>('Database')
+
+const userServiceLayer = Layer.factory(UserServiceTag, [DatabaseTag], (db) => ({
+  getUser: () => db.find(),
+}))
+const databaseLayer = Layer.factory(DatabaseTag, () => ({ find: () => {} }))
+
+function catchError(fn: () => unknown): unknown {
+  try {
+    fn()
+  } catch (error) {
+    return error
+  }
+  return undefined
+}
+
+describe('ScopeViolationError', () => {
+  it('should report the singleton and the scoped service', () => {
+    const error = catchError(() =>
+      createContainer(
+        Layer.merge(
+          userServiceLayer,
+          Layer.factory(DatabaseTag, () => ({ find: () => {} }), {
+            scope: 'scoped',
+          }),
+        ),
+      ),
+    )
+
+    expect(error).toBeInstanceOf(ScopeViolationError)
+    expect(error).toMatchObject({
+      name: 'ScopeViolationError',
+      tag: UserServiceTag,
+      scopedTag: DatabaseTag,
+    })
+  })
+})
+
+describe('AsyncServiceError', () => {
+  it('should report asynchronous services resolved synchronously', () => {
+    const container = createContainer(
+      Layer.merge(
+        userServiceLayer,
+        Layer.effect(DatabaseTag, async () => Promise.resolve({ find() {} })),
+      ),
+    )
+
+    const error = catchError(() => container.get(UserServiceTag))
+
+    expect(error).toBeInstanceOf(AsyncServiceError)
+    expect(error).toMatchObject({
+      name: 'AsyncServiceError',
+      tag: DatabaseTag,
+      path: [UserServiceTag, DatabaseTag],
+      reason: 'effect',
+    })
+  })
+})
+
+describe('ContainerDisposedError', () => {
+  it('should report the service requested from a disposed container', async () => {
+    const container = createContainer(databaseLayer)
+    await container.dispose()
+
+    const error = catchError(() => container.get(DatabaseTag))
+
+    expect(error).toBeInstanceOf(ContainerDisposedError)
+    expect(error).toMatchObject({
+      name: 'ContainerDisposedError',
+      tag: DatabaseTag,
+      message: 'Container has been disposed: cannot resolve Database',
+    })
+    expect(catchError(() => container.createScope())).toMatchObject({
+      tag: undefined,
+      message: 'Container has been disposed',
+    })
+  })
+})
+
+describe('ReleaseError', () => {
+  it('should report the service and its scope', async () => {
+    const container = createContainer(databaseLayer)
+
+    const error = await container
+      .release(container.get(DatabaseTag))
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(ReleaseError)
+    expect(error).toMatchObject({
+      name: 'ReleaseError',
+      tag: DatabaseTag,
+      scope: 'singleton',
+    })
+  })
+})
+
+describe('LayerMapError', () => {
+  it('should report the services of the layer', () => {
+    const layer = Layer.merge(
+      Layer.value(AppTag, { start: () => {} }),
+      Layer.value(DatabaseTag, { find: () => {} }),
+    )
+
+    const error = catchError(() => Layer.map(layer, UserServiceTag, () => ({})))
+
+    expect(error).toBeInstanceOf(LayerMapError)
+    expect(error).toMatchObject({
+      name: 'LayerMapError',
+      tags: [AppTag, DatabaseTag],
+    })
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import { FactoryError } from '../src/errors.ts'
+import { intercept, Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface Connection {
+  id: number
+}
+
+const ConnectionTag = tag<Connection>('Connection')
+
+describe('container hooks', () => {
+  it('should dispose the instance when an interceptor throws', async () => {
+    const disposed: number[] = []
+    let created = 0
+    let fail = true
+
+    const container = createContainer(
+      Layer.factory(ConnectionTag, () => ({ id: ++created }), {
+        dispose: (connection) => void disposed.push(connection.id),
+      }),
+      {
+        interceptors: [
+          intercept(ConnectionTag, (connection) => {
+            if (fail) {
+              fail = false
+              throw new Error('wrap failed')
+            }
+            return connection
+          }),
+        ],
+      },
+    )
+
+    expect(() => container.get(ConnectionTag)).toThrow(FactoryError)
+    expect(disposed).toEqual([1])
+    expect(container.get(ConnectionTag)).toBe(container.get(ConnectionTag))
+
+    await container.dispose()
+    expect(disposed).toEqual([1, 2])
+  })
+})
+
+describe('container hooks', () => {
+  it('should dispose the instance when the onResolved hook throws', async () => {
+    const dispose = vi.fn()
+    const onError = vi.fn()
+    const container = createContainer(
+      Layer.effect(ConnectionTag, async () => Promise.resolve({ id: 1 }), {
+        dispose,
+      }),
+      {
+        hooks: {
+          onResolved: () => {
+            throw new Error('hook failed')
+          },
+          onError,
+        },
+      },
+    )
+
+    const error = await container
+      .getAsync(ConnectionTag)
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(FactoryError)
+    const factoryError = error as FactoryError
+    expect(factoryError.tag).toBe(ConnectionTag)
+    expect(factoryError.cause).toEqual(new Error('hook failed'))
+    expect(dispose).toHaveBeenCalledWith({ id: 1 })
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ tag: ConnectionTag, error }),
+    )
+    await container.dispose()
+    expect(dispose).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reject values an interceptor throws on', async () => {
+    const container = createContainer(Layer.value(ConnectionTag, { id: 1 }), {
+      interceptors: [
+        intercept(ConnectionTag, () => {
+          throw new Error('wrap failed')
+        }),
+      ],
+    })
+
+    await expect(container.getAsync(ConnectionTag)).rejects.toThrow(
+      'Failed to create service: Connection (Connection): wrap failed',
+    )
+  })
+})
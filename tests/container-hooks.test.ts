@@ -0,0 +1,254 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createContainer, createContainerAsync } from '../src/container.ts'
+import { DisposalError, FactoryError } from '../src/errors.ts'
+import { intercept, Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+import type { ContainerHooks } from '../src/types.ts'
+
+interface Config {
+  url: string
+}
+
+interface Database {
+  query: (sql: string) => string
+}
+
+interface UserRepository {
+  find: (id: string) => string
+}
+
+const ConfigTag = tag<Config>('Config')
+const DatabaseTag = tag<Database>('Database')
+const UserRepositoryTag = tag<UserRepository>('UserRepository')
+
+const ConfigLive = Layer.value(ConfigTag, { url: 'db://app' })
+
+const DatabaseLive = Layer.factory(
+  DatabaseTag,
+  [ConfigTag],
+  (config) => ({ query: (sql) => `${config.url}: ${sql}` }),
+  { dispose: () => {} },
+)
+
+const UserRepositoryLive = Layer.effect(
+  UserRepositoryTag,
+  [DatabaseTag],
+  async (db) => Promise.resolve({ find: (id) => db.query(id) }),
+)
+
+const AppLive = Layer.merge(ConfigLive, DatabaseLive, UserRepositoryLive)
+
+function recordHooks(events: string[]): ContainerHooks {
+  return {
+    onResolveStart: ({ tag }) => events.push(`start ${tag.name}`),
+    onResolved: ({ tag }) => events.push(`resolved ${tag.name}`),
+    onError: ({ tag }) => events.push(`error ${tag.name}`),
+    onDispose: ({ tag }) => events.push(`dispose ${tag.name}`),
+  }
+}
+
+describe('container hooks', () => {
+  it('should report the creation of every service', async () => {
+    const events: string[] = []
+    const container = createContainer(AppLive, { hooks: recordHooks(events) })
+
+    await container.getAsync(UserRepositoryTag)
+    await container.getAsync(UserRepositoryTag)
+
+    expect(events).toEqual([
+      'start UserRepository',
+      'start Database',
+      'start Config',
+      'resolved Config',
+      'resolved Database',
+      'resolved UserRepository',
+    ])
+  })
+
+  it('should pass the scope, path and duration', () => {
+    const onResolved = vi.fn()
+    const container = createContainer(AppLive, { hooks: { onResolved } })
+
+    const db = container.get(DatabaseTag)
+
+    expect(onResolved).toHaveBeenLastCalledWith({
+      tag: DatabaseTag,
+      scope: 'singleton',
+      path: [DatabaseTag],
+      instance: db,
+      duration: expect.any(Number) as number,
+    })
+    expect(onResolved).toHaveBeenCalledWith(
+      expect.objectContaining({ path: [DatabaseTag, ConfigTag] }),
+    )
+  })
+})
+
+describe('container hooks', () => {
+  it('should report failures at every level of the path', async () => {
+    const onError = vi.fn()
+    const container = createContainer(
+      Layer.merge(
+        UserRepositoryLive,
+        Layer.factory(DatabaseTag, () => {
+          throw new Error('connection refused')
+        }),
+      ),
+      { hooks: { onError } },
+    )
+
+    await expect(container.getAsync(UserRepositoryTag)).rejects.toThrow(
+      FactoryError,
+    )
+    expect(() => container.get(DatabaseTag)).toThrow(FactoryError)
+
+    expect(onError.mock.calls.map(([{ path }]) => path as unknown)).toEqual([
+      [UserRepositoryTag, DatabaseTag],
+      [UserRepositoryTag],
+      [DatabaseTag],
+    ])
+  })
+})
+
+describe('container hooks', () => {
+  it('should report disposed instances', async () => {
+    const events: string[] = []
+    const container = await createContainerAsync(AppLive, {
+      hooks: recordHooks(events),
+    })
+    container.get(DatabaseTag)
+    events.length = 0
+
+    await container.dispose()
+
+    expect(events).toEqual(['dispose Database'])
+  })
+})
+
+describe('container hooks', () => {
+  it('should report failed disposers', async () => {
+    const error = new Error('close failed')
+    const onDispose = vi.fn()
+    const layer = Layer.factory(ConfigTag, () => ({ url: '' }), {
+      scope: 'transient',
+      dispose: () => {
+        throw error
+      },
+    })
+
+    const container = createContainer(layer, { hooks: { onDispose } })
+    const config = container.get(ConfigTag)
+    await expect(container.release(config)).rejects.toThrow(error)
+    expect(onDispose).toHaveBeenLastCalledWith({
+      tag: ConfigTag,
+      scope: 'transient',
+      instance: config,
+      duration: expect.any(Number) as number,
+      error,
+    })
+
+    const syncContainer = createContainer(layer, { hooks: { onDispose } })
+    syncContainer.get(ConfigTag)
+    expect(() => syncContainer[Symbol.dispose]()).toThrow(
+      'Failed to dispose services: Config',
+    )
+    expect(onDispose).toHaveBeenCalledTimes(2)
+  })
+
+  it('should report released instances', async () => {
+    const onDispose = vi.fn()
+    const container = createContainer(
+      Layer.factory(ConfigTag, () => ({ url: '' }), {
+        scope: 'transient',
+        dispose: () => {},
+      }),
+      { hooks: { onDispose } },
+    )
+
+    await container.release(container.createScope().get(ConfigTag))
+    await container.release(container.get(ConfigTag))
+
+    expect(onDispose).toHaveBeenCalledWith(
+      expect.objectContaining({ error: undefined }),
+    )
+  })
+})
+
+describe('container hooks', () => {
+  it('should keep disposing when the onDispose hook throws', async () => {
+    const error = new Error('hook failed')
+    const disposeDatabase = vi.fn()
+    const layer = Layer.merge(
+      ConfigLive,
+      Layer.factory(DatabaseTag, () => ({ query: (sql) => sql }), {
+        dispose: disposeDatabase,
+      }),
+      Layer.factory(
+        UserRepositoryTag,
+        [DatabaseTag],
+        (db) => ({ find: db.query }),
+        { dispose: () => {} },
+      ),
+    )
+    const hooks: ContainerHooks = {
+      onDispose: ({ tag }) => {
+        if (tag === UserRepositoryTag) {
+          throw error
+        }
+      },
+    }
+
+    const container = createContainer(layer, { hooks })
+    container.get(UserRepositoryTag)
+    const disposal = container.dispose()
+    await expect(disposal).rejects.toBeInstanceOf(DisposalError)
+    await expect(disposal).rejects.toMatchObject({
+      failures: [{ tag: UserRepositoryTag, error }],
+    })
+
+    const syncContainer = createContainer(layer, { hooks })
+    syncContainer.get(UserRepositoryTag)
+    expect(() => syncContainer[Symbol.dispose]()).toThrow(DisposalError)
+    expect(disposeDatabase).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('intercept', () => {
+  it('should wrap the instances of a service', async () => {
+    const queries: string[] = []
+    const container = createContainer(AppLive, {
+      interceptors: [
+        intercept(DatabaseTag, (db, { path }) => ({
+          query: (sql) => {
+            queries.push(`${path.map((t) => t.name).join(' > ')}: ${sql}`)
+            return db.query(sql)
+          },
+        })),
+        intercept(DatabaseTag, (db) => ({
+          query: (sql) => db.query(sql.toUpperCase()),
+        })),
+      ],
+    })
+
+    const repository = await container.getAsync(UserRepositoryTag)
+
+    expect(repository.find('select')).toBe('db://app: SELECT')
+    expect(queries).toEqual(['UserRepository > Database: SELECT'])
+    expect(container.get(DatabaseTag)).toBe(container.get(DatabaseTag))
+  })
+
+  it('should wrap values and pass the wrapped instance to hooks', () => {
+    const onResolved = vi.fn()
+    const wrapped = { url: 'db://wrapped' }
+    const container = createContainer(ConfigLive, {
+      hooks: { onResolved },
+      interceptors: [intercept(ConfigTag, () => wrapped)],
+    })
+
+    expect(container.get(ConfigTag)).toBe(wrapped)
+    expect(onResolved).toHaveBeenCalledWith(
+      expect.objectContaining({ instance: wrapped }),
+    )
+  })
+})
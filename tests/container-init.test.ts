@@ -0,0 +1,230 @@
+import { describe, expect, it } from 'vitest'
+
+import { createContainer, createContainerAsync } from '../src/container.ts'
+import { FactoryError, InitializationError } from '../src/errors.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface Config {
+  url: string
+}
+
+interface Database {
+  url: string
+}
+
+interface Cache {
+  size: number
+}
+
+interface Server {
+  port: number
+}
+
+const ConfigTag = tag<Config>('Config')
+const DatabaseTag = tag<Database>('Database')
+const CacheTag = tag<Cache>('Cache')
+const ServerTag = tag<Server>('Server')
+
+describe('container.init', () => {
+  it('should create every singleton in dependency order', async () => {
+    const created: string[] = []
+    const container = createContainer(
+      Layer.merge(
+        Layer.factory(ServerTag, [DatabaseTag], () => {
+          created.push('server')
+          return { port: 80 }
+        }),
+        Layer.effect(DatabaseTag, [ConfigTag], async (config) => {
+          created.push('database')
+          return Promise.resolve({ url: config.url })
+        }),
+        Layer.factory(ConfigTag, () => {
+          created.push('config')
+          return { url: 'db://app' }
+        }),
+      ),
+    )
+
+    await container.init()
+
+    expect(created).toEqual(['config', 'database', 'server'])
+    expect(container.get(DatabaseTag).url).toBe('db://app')
+  })
+
+  it('should not create scoped or transient services', async () => {
+    let created = 0
+    const container = createContainer(
+      Layer.merge(
+        Layer.factory(CacheTag, () => ({ size: created++ }), {
+          scope: 'scoped',
+        }),
+        Layer.factory(ServerTag, () => ({ port: created++ }), {
+          scope: 'transient',
+        }),
+      ),
+    )
+
+    await container.init()
+
+    expect(created).toBe(0)
+  })
+
+  it('should reject after disposal', async () => {
+    const container = createContainer(Layer.value(ConfigTag, { url: '' }))
+    await container.dispose()
+
+    await expect(container.init()).rejects.toThrow(
+      'Container has been disposed',
+    )
+  })
+})
+
+describe('container.init', () => {
+  it('should report every failure', async () => {
+    let created = 0
+    const container = createContainer(
+      Layer.merge(
+        Layer.factory(ConfigTag, () => {
+          throw new Error('missing url')
+        }),
+        Layer.factory(DatabaseTag, [ConfigTag], (config) => ({ ...config })),
+        Layer.effect(CacheTag, () => Promise.reject(new Error('no memory'))),
+        Layer.factory(ServerTag, () => ({ port: created++ })),
+      ),
+    )
+
+    const error = await container.init().catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(InitializationError)
+    const initialization = error as InitializationError
+    expect(initialization.name).toBe('InitializationError')
+    expect(initialization.message).toBe(
+      'Failed to initialize services: Config, Cache',
+    )
+    expect(initialization.failures.map((f) => f.tag)).toEqual([
+      ConfigTag,
+      CacheTag,
+    ])
+    expect(initialization.errors[0]).toBeInstanceOf(FactoryError)
+    expect(created).toBe(1)
+  })
+})
+
+describe('eager layers', () => {
+  it('should create eager singletons with the container', async () => {
+    const created: string[] = []
+    const layer = Layer.merge(
+      Layer.factory(
+        ServerTag,
+        [ConfigTag],
+        () => {
+          created.push('server')
+          return { port: 80 }
+        },
+        { eager: true },
+      ),
+      Layer.factory(ConfigTag, () => {
+        created.push('config')
+        return { url: '' }
+      }),
+      Layer.factory(CacheTag, () => {
+        created.push('cache')
+        return { size: 0 }
+      }),
+    )
+
+    createContainer(layer)
+    expect(created).toEqual(['config', 'server'])
+
+    created.length = 0
+    await createContainerAsync(layer)
+    expect(created).toEqual(['config', 'server'])
+  })
+})
+
+describe('eager layers', () => {
+  it('should fail to create the container when an eager singleton fails', async () => {
+    const layer = Layer.merge(
+      Layer.factory(
+        ConfigTag,
+        () => {
+          throw new Error('missing url')
+        },
+        { eager: true },
+      ),
+      Layer.factory(DatabaseTag, [ConfigTag], (config) => config, {
+        eager: true,
+      }),
+    )
+
+    expect(() => createContainer(layer)).toThrow(InitializationError)
+    await expect(createContainerAsync(layer)).rejects.toThrow(
+      'Failed to initialize services: Config',
+    )
+  })
+
+  it('should require createContainerAsync for eager effects', async () => {
+    const layer = Layer.effect(
+      DatabaseTag,
+      async () => Promise.resolve({ url: 'db://app' }),
+      { eager: true },
+    )
+
+    expect(() => createContainer(layer)).toThrow(
+      'Failed to initialize services: Database',
+    )
+    const container = await createContainerAsync(layer)
+    expect(container.get(DatabaseTag).url).toBe('db://app')
+  })
+})
+
+describe('eager layers', () => {
+  it('should dispose the singletons created before a failure', async () => {
+    const disposed: string[] = []
+    const layer = Layer.merge(
+      Layer.factory(ConfigTag, () => ({ url: 'db://app' }), {
+        eager: true,
+        dispose: () => {
+          disposed.push('config')
+        },
+      }),
+      Layer.factory(
+        DatabaseTag,
+        [ConfigTag],
+        () => {
+          throw new Error('connection refused')
+        },
+        { eager: true },
+      ),
+    )
+
+    expect(() => createContainer(layer)).toThrow(InitializationError)
+    expect(disposed).toEqual(['config'])
+
+    await expect(createContainerAsync(layer)).rejects.toThrow(
+      InitializationError,
+    )
+    expect(disposed).toEqual(['config', 'config'])
+  })
+
+  it('should dispose the async singletons created before a failure', async () => {
+    const disposed: string[] = []
+    const layer = Layer.merge(
+      Layer.effect(CacheTag, async () => Promise.resolve({ size: 0 }), {
+        dispose: () => {
+          disposed.push('cache')
+          throw new Error('already closed')
+        },
+      }),
+      Layer.effect(DatabaseTag, async () =>
+        Promise.reject(new Error('connection refused')),
+      ),
+    )
+
+    await expect(createContainerAsync(layer)).rejects.toThrow(
+      'connection refused',
+    )
+    expect(disposed).toEqual(['cache'])
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import { ServiceNotFoundError } from '../src/errors.ts'
+import { Layer, lazy, optional } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+import type { Container, Keyed } from '../src/types.ts'
+
+interface Config {
+  url: string
+}
+
+interface Database {
+  query: (sql: string) => string
+}
+
+interface Cache {
+  get: (key: string) => string | undefined
+}
+
+interface Request {
+  id: number
+}
+
+const ConfigTag = tag<Config>('Config')
+const DatabaseTag = tag<Database>('Database')
+const CacheTag = tag<Cache>('Cache')
+const RequestTag = tag<Request>('Request')
+const RegionTag = tag.keyed<Config, 'eu' | 'us'>('Region')
+
+let requests = 0
+
+const AppLive = Layer.merge(
+  Layer.provide(
+    Layer.factory(
+      DatabaseTag,
+      [ConfigTag, optional(CacheTag), lazy(RequestTag)],
+      (config) => ({ query: () => config.url }),
+      { dispose: () => {} },
+    ),
+    Layer.value(ConfigTag, { url: 'db://app' }),
+  ),
+  Layer.factory(RequestTag, () => ({ id: requests++ }), { scope: 'scoped' }),
+  Layer.value(RegionTag.of('eu'), { url: 'db://eu' }),
+)
+
+describe('container.has', () => {
+  it('should check whether a service is provided', () => {
+    const container: Container<
+      Database | Request | Cache | Keyed<Config, 'eu'>
+    > = createContainer(AppLive)
+
+    expect(container.has(DatabaseTag)).toBe(true)
+    expect(container.has(CacheTag)).toBe(false)
+    expect(container.has(RegionTag, 'eu')).toBe(true)
+    expect(container.has(RegionTag, 'us')).toBe(false)
+  })
+
+  it('should not report services hidden by Layer.provide', () => {
+    const container = createContainer(AppLive)
+
+    expect(container.has(ConfigTag)).toBe(false)
+  })
+})
+
+describe('container.tags', () => {
+  it('should list the services the container provides', () => {
+    const container = createContainer(AppLive)
+
+    expect(container.tags()).toEqual([
+      DatabaseTag,
+      RequestTag,
+      RegionTag.of('eu'),
+    ])
+    expect(container.get(container.tags()[0])).toBe(container.get(DatabaseTag))
+  })
+})
+
+describe('container.describe', () => {
+  it('should describe a service', () => {
+    const container = createContainer(AppLive)
+
+    expect(container.describe(DatabaseTag)).toEqual({
+      tag: DatabaseTag,
+      scope: 'singleton',
+      dependencies: [ConfigTag, CacheTag, RequestTag],
+      disposable: true,
+      instantiated: false,
+    })
+
+    container.get(DatabaseTag)
+
+    expect(container.describe(DatabaseTag).instantiated).toBe(true)
+    expect(container.describe(RegionTag, 'eu')).toMatchObject({
+      scope: 'singleton',
+      disposable: false,
+    })
+  })
+
+  it('should report disposable resources once instantiated', () => {
+    const resource = { [Symbol.dispose]: () => {} }
+    const ResourceTag = tag<typeof resource>('Resource')
+    const container = createContainer(
+      Layer.factory(ResourceTag, () => resource),
+    )
+
+    expect(container.describe(ResourceTag).disposable).toBe(false)
+    container.get(ResourceTag)
+    expect(container.describe(ResourceTag).disposable).toBe(true)
+  })
+
+  it('should reject services the container does not provide', () => {
+    const container = createContainer(AppLive)
+
+    // @ts-expect-error - Config is hidden by Layer.provide
+    expect(() => container.describe(ConfigTag)).toThrow(ServiceNotFoundError)
+  })
+})
+
+describe('container.instantiated', () => {
+  it('should list the services with live instances', () => {
+    const container = createContainer(AppLive)
+    expect(container.instantiated()).toEqual([])
+
+    container.get(DatabaseTag)
+    const scope = container.createScope()
+    scope.get(RequestTag)
+
+    expect(container.instantiated()).toEqual([DatabaseTag])
+    expect(scope.instantiated()).toEqual([DatabaseTag, RequestTag])
+    expect(scope.describe(RequestTag).instantiated).toBe(true)
+    expect(container.describe(RequestTag).instantiated).toBe(false)
+  })
+
+  it('should not list released transient instances', async () => {
+    const container = createContainer(
+      Layer.factory(RequestTag, () => ({ id: requests++ }), {
+        scope: 'transient',
+        dispose: () => {},
+      }),
+    )
+
+    const request = container.get(RequestTag)
+    expect(container.instantiated()).toEqual([RequestTag])
+
+    await container.release(request)
+    expect(container.instantiated()).toEqual([])
+  })
+  it('should not list transient instances without a disposer', () => {
+    const container = createContainer(
+      Layer.factory(RequestTag, () => ({ id: requests++ }), {
+        scope: 'transient',
+      }),
+    )
+
+    container.get(RequestTag)
+    expect(container.instantiated()).toEqual([])
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+const RequestTag = tag<{ id: string }>('Request')
+const LoggerTag = tag<{ request: { id: string } }>('Logger')
+const CacheTag = tag<{ name: string }>('Cache')
+const ServiceTag = tag<{ name: string }>('Service')
+
+const RequestLive = Layer.factory(RequestTag, () => ({ id: 'req' }), {
+  scope: 'scoped',
+})
+
+describe('createContainer scope validation', () => {
+  it('should reject singletons that depend on scoped services', () => {
+    const serviceLayer = Layer.factory(ServiceTag, [RequestTag], () => ({
+      name: 'service',
+    }))
+
+    expect(() =>
+      createContainer(Layer.merge(RequestLive, serviceLayer)),
+    ).toThrow(
+      'Singleton service Service cannot depend on scoped service Request',
+    )
+  })
+
+  it('should reject scoped services reached through transient services', () => {
+    const loggerLayer = Layer.factory(
+      LoggerTag,
+      [RequestTag],
+      (request) => ({ request }),
+      { scope: 'transient' },
+    )
+    const serviceLayer = Layer.factory(ServiceTag, [LoggerTag], () => ({
+      name: 'service',
+    }))
+
+    expect(() =>
+      createContainer(Layer.merge(RequestLive, loggerLayer, serviceLayer)),
+    ).toThrow(
+      'Singleton service Service cannot depend on scoped service Request',
+    )
+  })
+})
+
+describe('createContainer scope validation', () => {
+  it('should allow singletons that depend on transient and singleton services', () => {
+    const cacheLayer = Layer.factory(CacheTag, () => ({ name: 'cache' }))
+    const loggerLayer = Layer.factory(
+      LoggerTag,
+      [CacheTag],
+      () => ({ request: { id: 'none' } }),
+      { scope: 'transient' },
+    )
+    const otherLoggerTag = tag<{ name: string }>('OtherLogger')
+    const otherLoggerLayer = Layer.factory(
+      otherLoggerTag,
+      [LoggerTag, CacheTag],
+      () => ({ name: 'other' }),
+      { scope: 'transient' },
+    )
+    const serviceLayer = Layer.factory(
+      ServiceTag,
+      [LoggerTag, otherLoggerTag],
+      () => ({ name: 'service' }),
+    )
+
+    const container = createContainer(
+      Layer.merge(cacheLayer, loggerLayer, otherLoggerLayer, serviceLayer),
+    )
+
+    expect(container.get(ServiceTag).name).toBe('service')
+  })
+
+  it('should allow scoped services that depend on scoped services', () => {
+    const loggerLayer = Layer.factory(
+      LoggerTag,
+      [RequestTag],
+      (request) => ({ request }),
+      { scope: 'scoped' },
+    )
+
+    const container = createContainer(Layer.merge(RequestLive, loggerLayer))
+    const scope = container.createScope()
+
+    expect(scope.get(LoggerTag).request).toBe(scope.get(RequestTag))
+  })
+})
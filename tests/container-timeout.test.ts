@@ -0,0 +1,306 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createContainer, createContainerAsync } from '../src/container.ts'
+import {
+  DisposalError,
+  FactoryError,
+  InitializationError,
+  TimeoutError,
+} from '../src/errors.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface Database {
+  url: string
+}
+
+interface Cache {
+  size: number
+}
+
+const DatabaseTag = tag<Database>('Database')
+const CacheTag = tag<Cache>('Cache')
+
+function never<T>(): Promise<T> {
+  return new Promise(() => {})
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('timeout', () => {
+  it('should fail a factory that does not settle in time', async () => {
+    const container = createContainer(
+      Layer.effect(DatabaseTag, () => never<Database>(), { timeout: 5000 }),
+    )
+
+    const result = container.getAsync(DatabaseTag).catch((e: unknown) => e)
+    await vi.advanceTimersByTimeAsync(5000)
+    const error = await result
+
+    expect(error).toBeInstanceOf(FactoryError)
+    const cause = (error as FactoryError).cause as TimeoutError
+    expect(cause).toBeInstanceOf(TimeoutError)
+    expect(cause.name).toBe('TimeoutError')
+    expect(cause.tag).toBe(DatabaseTag)
+    expect(cause.timeout).toBe(5000)
+    expect((error as FactoryError).message).toBe(
+      'Failed to create service: Database (Database): Database timed out after 5000ms',
+    )
+  })
+
+  it('should not fail a factory that settles in time', async () => {
+    const container = createContainer(
+      Layer.effect(
+        DatabaseTag,
+        () =>
+          new Promise<Database>((resolve) => {
+            setTimeout(() => resolve({ url: 'db://app' }), 1000)
+          }),
+        { timeout: 5000 },
+      ),
+    )
+
+    const result = container.getAsync(DatabaseTag)
+    await vi.advanceTimersByTimeAsync(1000)
+
+    await expect(result).resolves.toEqual({ url: 'db://app' })
+    expect(vi.getTimerCount()).toBe(0)
+  })
+})
+
+describe('timeout', () => {
+  it('should fail startup in graph order', async () => {
+    const container = createContainer(
+      Layer.merge(
+        Layer.effect(DatabaseTag, () => never<Database>(), { timeout: 100 }),
+        Layer.factory(CacheTag, [DatabaseTag], () => ({ size: 0 })),
+      ),
+    )
+
+    const result = container.init().catch((e: unknown) => e)
+    await vi.advanceTimersByTimeAsync(100)
+    const error = await result
+
+    expect(error).toBeInstanceOf(InitializationError)
+    expect((error as InitializationError).message).toBe(
+      'Failed to initialize services: Database',
+    )
+  })
+})
+
+describe('retry', () => {
+  it('should call a failing factory again after the backoff', async () => {
+    let calls = 0
+    const container = createContainer(
+      Layer.effect(
+        DatabaseTag,
+        async () => {
+          calls++
+          return calls < 3
+            ? Promise.reject(new Error('connection refused'))
+            : Promise.resolve({ url: 'db://app' })
+        },
+        { retry: { attempts: 3, backoff: (attempt) => attempt * 100 } },
+      ),
+    )
+
+    const result = container.getAsync(DatabaseTag)
+
+    await vi.advanceTimersByTimeAsync(99)
+    expect(calls).toBe(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(calls).toBe(2)
+    await vi.advanceTimersByTimeAsync(200)
+    expect(calls).toBe(3)
+    await expect(result).resolves.toEqual({ url: 'db://app' })
+  })
+
+  it('should rethrow the error of the last attempt', async () => {
+    let calls = 0
+    const container = createContainer(
+      Layer.factory(
+        DatabaseTag,
+        () => {
+          calls++
+          throw new Error(`attempt ${calls}`)
+        },
+        { retry: { attempts: 2 } },
+      ),
+    )
+
+    const result = container.getAsync(DatabaseTag).catch((e: unknown) => e)
+    await vi.runAllTimersAsync()
+
+    expect(((await result) as FactoryError).cause).toEqual(
+      new Error('attempt 2'),
+    )
+    expect(calls).toBe(2)
+  })
+})
+
+describe('retry', () => {
+  it('should retry attempts that time out', async () => {
+    let calls = 0
+    const container = createContainer(
+      Layer.effect(
+        DatabaseTag,
+        () =>
+          ++calls === 1 ? never<Database>() : Promise.resolve({ url: '' }),
+        { timeout: 1000, retry: { attempts: 2, backoff: 500 } },
+      ),
+    )
+
+    const result = container.getAsync(DatabaseTag)
+    await vi.advanceTimersByTimeAsync(1500)
+
+    await expect(result).resolves.toEqual({ url: '' })
+    expect(calls).toBe(2)
+  })
+
+  it('should not resolve factories with a policy synchronously', async () => {
+    const container = createContainer(
+      Layer.merge(
+        Layer.factory(DatabaseTag, () => ({ url: '' }), {
+          retry: { attempts: 2 },
+        }),
+        Layer.factory(CacheTag, () => ({ size: 0 }), { timeout: 1000 }),
+      ),
+    )
+
+    expect(() => container.get(DatabaseTag)).toThrow(
+      'Service has a timeout or retry policy: Database. Use getAsync() or createContainerAsync() to resolve it.',
+    )
+    expect(() => container.get(CacheTag)).toThrow(
+      'Service has a timeout or retry policy: Cache',
+    )
+    await expect(container.getAsync(CacheTag)).resolves.toEqual({ size: 0 })
+    expect(container.get(CacheTag)).toEqual({ size: 0 })
+  })
+})
+
+describe('timeout', () => {
+  it('should dispose instances created after the timeout', async () => {
+    const dispose = vi.fn()
+    let calls = 0
+    const container = createContainer(
+      Layer.effect(
+        DatabaseTag,
+        () =>
+          new Promise<Database>((resolve) => {
+            const url = `db://${++calls}`
+            setTimeout(() => resolve({ url }), calls === 1 ? 2000 : 0)
+          }),
+        { timeout: 1000, retry: { attempts: 2 }, dispose },
+      ),
+    )
+
+    const result = container.getAsync(DatabaseTag)
+    await vi.advanceTimersByTimeAsync(1500)
+    await expect(result).resolves.toEqual({ url: 'db://2' })
+    expect(dispose).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(dispose).toHaveBeenCalledExactlyOnceWith({ url: 'db://1' })
+  })
+
+  it('should ignore late failures', async () => {
+    let calls = 0
+    const container = createContainer(
+      Layer.effect(
+        DatabaseTag,
+        () =>
+          new Promise<Database>((resolve, reject) => {
+            const late =
+              ++calls === 1
+                ? () => resolve({ url: '' })
+                : () => reject(new Error('connection refused'))
+            setTimeout(late, 2000)
+          }),
+        {
+          timeout: 1000,
+          retry: { attempts: 2 },
+          dispose: () => {
+            throw new Error('close failed')
+          },
+        },
+      ),
+    )
+
+    const result = container.getAsync(DatabaseTag).catch((e: unknown) => e)
+    await vi.runAllTimersAsync()
+
+    expect(await result).toBeInstanceOf(FactoryError)
+  })
+})
+
+describe('retry', () => {
+  it('should create factories with a policy in createContainerAsync', async () => {
+    let calls = 0
+    const creation = createContainerAsync(
+      Layer.merge(
+        Layer.factory(
+          DatabaseTag,
+          () => {
+            if (++calls === 1) {
+              throw new Error('connection refused')
+            }
+            return { url: 'db://app' }
+          },
+          { timeout: 100, retry: { attempts: 2 } },
+        ),
+        Layer.factory(CacheTag, [DatabaseTag], (db) => ({
+          size: db.url.length,
+        })),
+      ),
+    )
+    await vi.runAllTimersAsync()
+    const container = await creation
+
+    expect(container.get(CacheTag)).toEqual({ size: 8 })
+    expect(calls).toBe(2)
+  })
+})
+
+describe('disposeTimeout', () => {
+  it('should stop waiting for a hung disposer', async () => {
+    const container = createContainer(
+      Layer.factory(DatabaseTag, () => ({ url: '' }), {
+        dispose: () => never<void>(),
+        disposeTimeout: 3000,
+      }),
+    )
+    container.get(DatabaseTag)
+
+    const result = container.dispose().catch((e: unknown) => e)
+    await vi.runAllTimersAsync()
+    const error = await result
+
+    expect(error).toBeInstanceOf(DisposalError)
+    expect((error as DisposalError).errors).toEqual([
+      new TimeoutError(DatabaseTag, 3000),
+    ])
+  })
+
+  it('should stop waiting for a hung release', async () => {
+    const container = createContainer(
+      Layer.factory(DatabaseTag, () => ({ url: '' }), {
+        scope: 'transient',
+        dispose: () => never<void>(),
+        disposeTimeout: 3000,
+      }),
+    )
+
+    const result = container
+      .release(container.get(DatabaseTag))
+      .catch((e: unknown) => e)
+    await vi.runAllTimersAsync()
+
+    expect(await result).toBeInstanceOf(TimeoutError)
+  })
+})
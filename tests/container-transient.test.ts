@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface HttpClient {
+  id: number
+}
+
+describe('createContainer transient tracking', () => {
+  it('should dispose every transient instance', async () => {
+    const HttpClientTag = tag<HttpClient>('HttpClient')
+    const disposeSpy = vi.fn()
+    let count = 0
+
+    const httpClientLayer = Layer.factory(
+      HttpClientTag,
+      () => ({ id: ++count }),
+      { scope: 'transient', dispose: disposeSpy },
+    )
+
+    const container = createContainer(httpClientLayer)
+    const c1 = container.get(HttpClientTag)
+    const c2 = container.get(HttpClientTag)
+    const c3 = await container.getAsync(HttpClientTag)
+
+    await container.dispose()
+
+    expect(disposeSpy).toHaveBeenCalledTimes(3)
+    expect(disposeSpy).toHaveBeenCalledWith(c1)
+    expect(disposeSpy).toHaveBeenCalledWith(c2)
+    expect(disposeSpy).toHaveBeenCalledWith(c3)
+  })
+})
+
+describe('createContainer transient tracking', () => {
+  it('should dispose each transient instance that implements Symbol.dispose', async () => {
+    const HttpClientTag = tag<Partial<Disposable>>('HttpClient')
+    const disposeSpy = vi.fn()
+    let count = 0
+
+    const container = createContainer(
+      Layer.factory(
+        HttpClientTag,
+        () => (++count % 2 === 0 ? { [Symbol.dispose]: disposeSpy } : {}),
+        { scope: 'transient' },
+      ),
+    )
+    container.get(HttpClientTag)
+    container.get(HttpClientTag)
+    container.get(HttpClientTag)
+    container.get(HttpClientTag)
+
+    await container.dispose()
+
+    expect(disposeSpy).toHaveBeenCalledTimes(2)
+  })
+
+  it('should dispose each transient instance synchronously', () => {
+    const HttpClientTag = tag<Partial<Disposable>>('HttpClient')
+    const disposeSpy = vi.fn()
+    let count = 0
+
+    {
+      using container = createContainer(
+        Layer.factory(
+          HttpClientTag,
+          () => (++count % 2 === 0 ? { [Symbol.dispose]: disposeSpy } : {}),
+          { scope: 'transient' },
+        ),
+      )
+      container.get(HttpClientTag)
+      container.get(HttpClientTag)
+    }
+
+    expect(disposeSpy).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('createContainer release', () => {
+  it('should dispose a released transient instance immediately', async () => {
+    const HttpClientTag = tag<HttpClient>('HttpClient')
+    const disposeSpy = vi.fn()
+    let count = 0
+
+    const httpClientLayer = Layer.factory(
+      HttpClientTag,
+      () => ({ id: ++count }),
+      { scope: 'transient', dispose: disposeSpy },
+    )
+
+    const container = createContainer(httpClientLayer)
+    const c1 = container.get(HttpClientTag)
+    const c2 = container.get(HttpClientTag)
+
+    await container.release(c1)
+
+    expect(disposeSpy).toHaveBeenCalledTimes(1)
+    expect(disposeSpy).toHaveBeenCalledWith(c1)
+
+    await container.dispose()
+
+    expect(disposeSpy).toHaveBeenCalledTimes(2)
+    expect(disposeSpy).toHaveBeenLastCalledWith(c2)
+  })
+
+  it('should ignore instances the container does not track', async () => {
+    const HttpClientTag = tag<HttpClient>('HttpClient')
+    const disposeSpy = vi.fn()
+
+    const httpClientLayer = Layer.factory(HttpClientTag, () => ({ id: 1 }), {
+      scope: 'transient',
+      dispose: disposeSpy,
+    })
+
+    const container = createContainer(httpClientLayer)
+    const client = container.get(HttpClientTag)
+
+    await container.release(client)
+    await container.release(client)
+    await container.release({ id: 2 })
+
+    expect(disposeSpy).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('createContainer release', () => {
+  it('should release transient instances without a dispose callback', async () => {
+    const HttpClientTag = tag<HttpClient>('HttpClient')
+
+    const container = createContainer(
+      Layer.factory(HttpClientTag, () => ({ id: 1 }), { scope: 'transient' }),
+    )
+    const client = container.get(HttpClientTag)
+
+    await expect(container.release(client)).resolves.toBeUndefined()
+  })
+
+  it('should reject releasing a singleton instance', async () => {
+    const DatabaseTag = tag<{ url: string }>('Database')
+    const LoggerTag = tag<{ log: () => void }>('Logger')
+
+    const container = createContainer(
+      Layer.merge(
+        Layer.value(LoggerTag, { log: () => {} }),
+        Layer.factory(DatabaseTag, () => ({ url: 'db' })),
+      ),
+    )
+    container.get(LoggerTag)
+    const db = container.get(DatabaseTag)
+
+    await expect(container.release(db)).rejects.toThrow(
+      'Cannot release singleton service: Database',
+    )
+  })
+})
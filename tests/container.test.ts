@@ -44,3 +44,21 @@ describe('createContainer', () => {
     })
   })
 })
+
+describe('createContainer', () => {
+  describe('unknown services', () => {
+    it('should throw for tags the container does not provide', () => {
+      const ConfigTag = tag<{ timeout: number }>('Config')
+      const DatabaseTag = tag<{ find: () => void }>('Database')
+
+      const container = createContainer(
+        Layer.value(ConfigTag, { timeout: 5000 }),
+      )
+
+      // @ts-expect-error - Database is not in the container
+      expect(() => container.get(DatabaseTag)).toThrow(
+        'Service not found: Database',
+      )
+    })
+  })
+})
@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest'
+
+import { createContainer, createContainerAsync } from '../src/container.ts'
+import { CircularDependencyError } from '../src/errors.ts'
+import { Layer, lazy, optional } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface Cache {
+  get: (key: string) => string | undefined
+}
+
+interface Api {
+  fetch: (key: string) => string
+}
+
+const CacheTag = tag<Cache>('Cache')
+const ApiTag = tag<Api>('Api')
+
+const ApiLive = Layer.factory(ApiTag, [optional(CacheTag)], (cache) => ({
+  fetch: (key) => cache?.get(key) ?? `fetched ${key}`,
+}))
+
+describe('optional', () => {
+  it('should resolve to undefined when the service is not provided', async () => {
+    const container = createContainer(ApiLive)
+
+    expect(container.get(ApiTag).fetch('a')).toBe('fetched a')
+
+    const asyncContainer = await createContainerAsync(ApiLive)
+    expect((await asyncContainer.getAsync(ApiTag)).fetch('b')).toBe('fetched b')
+  })
+
+  it('should inject the service when it is provided', async () => {
+    const layer = Layer.merge(
+      ApiLive,
+      Layer.value(CacheTag, { get: (key) => `cached ${key}` }),
+    )
+
+    expect(createContainer(layer).get(ApiTag).fetch('b')).toBe('cached b')
+
+    const container = await createContainerAsync(layer)
+    expect((await container.getAsync(ApiTag)).fetch('c')).toBe('cached c')
+  })
+
+  it('should dispose optional dependencies after their dependents', async () => {
+    const order: string[] = []
+    const container = createContainer(
+      Layer.merge(
+        Layer.factory(
+          ApiTag,
+          [optional(CacheTag)],
+          () => ({ fetch: () => '' }),
+          {
+            dispose: () => {
+              order.push('api')
+            },
+          },
+        ),
+        Layer.factory(CacheTag, () => ({ get: () => undefined }), {
+          dispose: () => {
+            order.push('cache')
+          },
+        }),
+      ),
+    )
+    container.get(ApiTag)
+
+    await container.dispose()
+
+    expect(order).toEqual(['api', 'cache'])
+  })
+})
+
+interface Parent {
+  name: string
+  child: () => Child
+}
+
+interface Child {
+  name: string
+  parent: Parent
+}
+
+const ParentTag = tag<Parent>('Parent')
+const ChildTag = tag<Child>('Child')
+
+const FamilyLive = Layer.merge(
+  Layer.factory(ParentTag, [lazy(ChildTag)], (getChild) => ({
+    name: 'parent',
+    child: getChild,
+  })),
+  Layer.factory(ChildTag, [ParentTag], (parent) => ({ name: 'child', parent })),
+)
+
+describe('lazy', () => {
+  it('should create the service on first use', () => {
+    let created = 0
+    const container = createContainer(
+      Layer.merge(
+        Layer.factory(ParentTag, [lazy(ChildTag)], (getChild) => ({
+          name: 'parent',
+          child: getChild,
+        })),
+        Layer.factory(ChildTag, () => {
+          created++
+          return { name: 'child', parent: undefined as unknown as Parent }
+        }),
+      ),
+    )
+
+    const parent = container.get(ParentTag)
+    expect(created).toBe(0)
+
+    expect(parent.child()).toBe(parent.child())
+    expect(created).toBe(1)
+  })
+
+  it('should break cycles between services', async () => {
+    const container = createContainer(FamilyLive)
+
+    const parent = await container.getAsync(ParentTag)
+
+    expect(parent.child().parent).toBe(parent)
+    expect(container.get(ChildTag)).toBe(parent.child())
+  })
+
+  it('should require the service', () => {
+    const layer = Layer.factory(ParentTag, [lazy(ChildTag)], (getChild) => ({
+      name: 'parent',
+      child: getChild,
+    }))
+
+    // @ts-expect-error - Child is required but not provided
+    expect(() => createContainer(layer)).toThrow(
+      'Service not found: Child (Parent -> Child)',
+    )
+  })
+
+  it('should not resolve the service after disposal', async () => {
+    const container = createContainer(FamilyLive)
+    const parent = container.get(ParentTag)
+
+    await container.dispose()
+
+    expect(() => parent.child()).toThrow('Container has been disposed')
+  })
+})
+
+describe('lazy', () => {
+  const EagerFamilyLive = Layer.merge(
+    Layer.factory(ParentTag, [lazy(ChildTag)], (getChild) => {
+      getChild()
+      return { name: 'parent', child: getChild }
+    }),
+    Layer.factory(ChildTag, [ParentTag], (parent) => ({
+      name: 'child',
+      parent,
+    })),
+  )
+
+  it('should detect cycles closed while creating the service', async () => {
+    const container = createContainer(EagerFamilyLive)
+
+    expect(() => container.get(ParentTag)).toThrow(CircularDependencyError)
+    expect(() => container.get(ParentTag)).toThrow(
+      'Circular dependency detected: Parent -> Child -> Parent',
+    )
+    await expect(container.getAsync(ParentTag)).rejects.toMatchObject({
+      path: [ParentTag, ChildTag, ParentTag],
+    })
+  })
+
+  it('should create transient dependents again after they are created', () => {
+    let created = 0
+    const container = createContainer(
+      Layer.merge(
+        Layer.factory(
+          ParentTag,
+          [lazy(ChildTag)],
+          (getChild) => {
+            created++
+            return { name: 'parent', child: getChild }
+          },
+          { scope: 'transient' },
+        ),
+        Layer.factory(ChildTag, [ParentTag], (parent) => ({
+          name: 'child',
+          parent,
+        })),
+      ),
+    )
+
+    const parent = container.get(ParentTag)
+
+    expect(parent.child().parent).not.toBe(parent)
+    expect(created).toBe(2)
+  })
+})
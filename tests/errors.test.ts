@@ -0,0 +1,286 @@
+import { describe, expect, it } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import {
+  CircularDependencyError,
+  DuplicateTagError,
+  FactoryError,
+  ServiceNotFoundError,
+} from '../src/errors.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+const AppTag = tag<{ start: () => void }>('App')
+const UserServiceTag = tag<{ getUser: () => void }>('UserService')
+const DatabaseTag = tag<{ find: () => void }>('Database')
+
+const userServiceLayer = Layer.factory(UserServiceTag, [DatabaseTag], (db) => ({
+  getUser: () => db.find(),
+}))
+const appLayer = Layer.factory(AppTag, [UserServiceTag], (users) => ({
+  start: () => users.getUser(),
+}))
+
+function catchError(fn: () => unknown): unknown {
+  try {
+    fn()
+  } catch (error) {
+    return error
+  }
+  return undefined
+}
+
+describe('ServiceNotFoundError', () => {
+  it('should report the dependent of a missing service', () => {
+    const error = catchError(() =>
+      // @ts-expect-error - Database is required but not provided
+      createContainer(Layer.merge(appLayer, userServiceLayer)),
+    )
+
+    expect(error).toBeInstanceOf(ServiceNotFoundError)
+    const notFound = error as ServiceNotFoundError
+    expect(notFound.name).toBe('ServiceNotFoundError')
+    expect(notFound.tag).toBe(DatabaseTag)
+    expect(notFound.path).toEqual([UserServiceTag, DatabaseTag])
+    expect(notFound.paths).toEqual([[UserServiceTag, DatabaseTag]])
+  })
+
+  it('should report the resolution path of an unknown service', () => {
+    const container = createContainer(
+      Layer.value(UserServiceTag, { getUser: () => {} }),
+    )
+
+    // @ts-expect-error - Database is not provided by the container
+    const error = catchError(() => container.get(DatabaseTag))
+
+    expect(error).toBeInstanceOf(ServiceNotFoundError)
+    expect((error as ServiceNotFoundError).path).toEqual([DatabaseTag])
+    expect((error as ServiceNotFoundError).message).toBe(
+      'Service not found: Database',
+    )
+  })
+})
+
+describe('CircularDependencyError', () => {
+  it('should report the dependency path that closes the cycle', () => {
+    const databaseLayer = Layer.factory(DatabaseTag, [UserServiceTag], () => ({
+      find: () => {},
+    }))
+
+    const error = catchError(() =>
+      createContainer(Layer.merge(userServiceLayer, databaseLayer)),
+    )
+
+    expect(error).toBeInstanceOf(CircularDependencyError)
+    const circular = error as CircularDependencyError
+    expect(circular.name).toBe('CircularDependencyError')
+    expect(circular.tag).toBe(UserServiceTag)
+    expect(circular.path).toEqual([UserServiceTag, DatabaseTag, UserServiceTag])
+    expect(circular.cycles).toEqual([circular.path])
+    expect(circular.message).toBe(
+      'Circular dependency detected: UserService -> Database -> UserService',
+    )
+  })
+})
+
+describe('CircularDependencyError', () => {
+  const ATag = tag<{ a: string }>('A')
+  const BTag = tag<{ b: string }>('B')
+  const CTag = tag<{ c: string }>('C')
+  const DTag = tag<{ d: string }>('D')
+
+  it('should report only the services that form the cycle', () => {
+    const error = catchError(() =>
+      createContainer(
+        Layer.merge(
+          Layer.factory(AppTag, [ATag], () => ({ start: () => {} })),
+          Layer.factory(ATag, [BTag], () => ({ a: 'a' })),
+          Layer.factory(BTag, [CTag], () => ({ b: 'b' })),
+          Layer.factory(CTag, [ATag], () => ({ c: 'c' })),
+        ),
+      ),
+    )
+
+    expect((error as CircularDependencyError).tag).toBe(ATag)
+    expect((error as CircularDependencyError).message).toBe(
+      'Circular dependency detected: A -> B -> C -> A',
+    )
+  })
+
+  it('should report every distinct cycle', () => {
+    const error = catchError(() =>
+      createContainer(
+        Layer.merge(
+          Layer.factory(ATag, [BTag], () => ({ a: 'a' })),
+          Layer.factory(BTag, [ATag], () => ({ b: 'b' })),
+          Layer.factory(CTag, [DTag], () => ({ c: 'c' })),
+          Layer.factory(DTag, [CTag, DTag], () => ({ d: 'd' })),
+        ),
+      ),
+    )
+
+    expect((error as CircularDependencyError).cycles).toEqual([
+      [ATag, BTag, ATag],
+      [CTag, DTag, CTag],
+      [DTag, DTag],
+    ])
+    expect((error as CircularDependencyError).message).toBe(
+      'Circular dependency detected: A -> B -> A, C -> D -> C, D -> D',
+    )
+  })
+})
+
+describe('CircularDependencyError', () => {
+  const ATag = tag<{ a: string }>('A')
+  const BTag = tag<{ b: string }>('B')
+  const CTag = tag<{ c: string }>('C')
+  const DTag = tag<{ d: string }>('D')
+
+  it('should report every cycle through the same services', () => {
+    const error = catchError(() =>
+      createContainer(
+        Layer.merge(
+          Layer.factory(ATag, [BTag, CTag], () => ({ a: 'a' })),
+          Layer.factory(BTag, [CTag], () => ({ b: 'b' })),
+          Layer.factory(CTag, [ATag], () => ({ c: 'c' })),
+        ),
+      ),
+    )
+
+    expect((error as CircularDependencyError).cycles).toEqual([
+      [ATag, BTag, CTag, ATag],
+      [ATag, CTag, ATag],
+    ])
+  })
+
+  it('should report cycles sharing services', () => {
+    const error = catchError(() =>
+      createContainer(
+        Layer.merge(
+          Layer.factory(ATag, [DTag], () => ({ a: 'a' })),
+          Layer.factory(BTag, [CTag, DTag], () => ({ b: 'b' })),
+          Layer.factory(CTag, [BTag], () => ({ c: 'c' })),
+          Layer.factory(DTag, [ATag, CTag], () => ({ d: 'd' })),
+        ),
+      ),
+    )
+
+    expect((error as CircularDependencyError).cycles).toEqual([
+      [ATag, DTag, ATag],
+      [BTag, CTag, BTag],
+      [BTag, DTag, CTag, BTag],
+    ])
+  })
+})
+
+describe('CircularDependencyError', () => {
+  const ATag = tag<{ a: string }>('A')
+  const BTag = tag<{ b: string }>('B')
+  const DTag = tag<{ d: string }>('D')
+
+  it('should not report dependencies shared by a cycle', () => {
+    const error = catchError(() =>
+      createContainer(
+        Layer.merge(
+          Layer.factory(ATag, [BTag, DTag], () => ({ a: 'a' })),
+          Layer.factory(BTag, [ATag, DTag], () => ({ b: 'b' })),
+          Layer.value(DTag, { d: 'd' }),
+        ),
+      ),
+    )
+
+    expect((error as CircularDependencyError).cycles).toEqual([
+      [ATag, BTag, ATag],
+    ])
+  })
+})
+
+describe('DuplicateTagError', () => {
+  it('should report every duplicated tag', () => {
+    const error = catchError(() =>
+      createContainer(
+        Layer.merge(
+          Layer.value(DatabaseTag, { find: () => {} }),
+          Layer.value(DatabaseTag, { find: () => {} }),
+        ),
+      ),
+    )
+
+    expect(error).toBeInstanceOf(DuplicateTagError)
+    const duplicate = error as DuplicateTagError
+    expect(duplicate.name).toBe('DuplicateTagError')
+    expect(duplicate.tag).toBe(DatabaseTag)
+    expect(duplicate.tags).toEqual([DatabaseTag])
+  })
+})
+
+describe('FactoryError', () => {
+  it('should wrap a throwing factory with its resolution path', () => {
+    const cause = new Error('connection refused')
+    const container = createContainer(
+      Layer.merge(
+        appLayer,
+        userServiceLayer,
+        Layer.factory(DatabaseTag, () => {
+          throw cause
+        }),
+      ),
+    )
+
+    const error = catchError(() => container.get(AppTag))
+
+    expect(error).toBeInstanceOf(FactoryError)
+    const factoryError = error as FactoryError
+    expect(factoryError.name).toBe('FactoryError')
+    expect(factoryError.tag).toBe(DatabaseTag)
+    expect(factoryError.path).toEqual([AppTag, UserServiceTag, DatabaseTag])
+    expect(factoryError.cause).toBe(cause)
+    expect(factoryError.message).toBe(
+      'Failed to create service: Database (App -> UserService -> Database): connection refused',
+    )
+  })
+})
+
+describe('FactoryError', () => {
+  it('should wrap a rejecting effect with its resolution path', async () => {
+    const effectLayer = Layer.effect(DatabaseTag, () =>
+      // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors
+      Promise.reject('timeout'),
+    )
+
+    const container = createContainer(
+      Layer.merge(userServiceLayer, effectLayer),
+    )
+
+    const error = await container
+      .getAsync(UserServiceTag)
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(FactoryError)
+    expect((error as FactoryError).path).toEqual([UserServiceTag, DatabaseTag])
+    expect((error as FactoryError).cause).toBe('timeout')
+    expect((error as FactoryError).message).toBe(
+      'Failed to create service: Database (UserService -> Database): timeout',
+    )
+  })
+
+  it('should not wrap failures of dependencies twice', async () => {
+    const container = createContainer(
+      Layer.merge(
+        userServiceLayer,
+        Layer.factory(DatabaseTag, () => {
+          throw new Error('connection refused')
+        }),
+      ),
+    )
+
+    const error = await container
+      .getAsync(UserServiceTag)
+      .catch((e: unknown) => e)
+
+    expect((error as FactoryError).tag).toBe(DatabaseTag)
+    expect((error as FactoryError).cause).toEqual(
+      new Error('connection refused'),
+    )
+  })
+})
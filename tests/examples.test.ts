@@ -70,6 +70,35 @@ describe('examples/resource-disposal.ts', () => {
     expect(stdout).toContain('[Cache] Clearing')
     expect(stdout).toContain('[Watcher] Stopping')
     expect(stdout).toContain('[DB] Closing')
+    expect(stdout.indexOf('[Cache] Clearing')).toBeLessThan(
+      stdout.indexOf('[DB] Closing'),
+    )
+  })
+})
+
+describe('examples/async-initialization.ts', () => {
+  it('should execute successfully', () => {
+    const { stdout, stderr } = runExample('async-initialization.ts')
+
+    expect(stderr).toBe('')
+    expect(stdout).toContain('=== Initializing container ===')
+    expect(stdout).toContain('[Secrets] Loaded')
+    expect(stdout).toContain('[Broker] Connected')
+    expect(stdout).toContain('[DB] Connected')
+    expect(stdout).toContain('[Broker] orders: placed order-1')
+  })
+})
+
+describe('examples/request-scope.ts', () => {
+  it('should execute successfully', () => {
+    const { stdout, stderr } = runExample('request-scope.ts')
+
+    expect(stderr).toBe('')
+    expect(stdout.match(/\[DB\] Connecting/g)).toHaveLength(1)
+    expect(stdout).toContain('[tx-1] Handling /home')
+    expect(stdout).toContain('[tx-1] Commit')
+    expect(stdout).toContain('[tx-2] Handling /about')
+    expect(stdout).toContain('[tx-2] Commit')
   })
 })
 
@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import { Layer, optional } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+class Logger {
+  readonly lines: string[] = []
+
+  log(message: string): void {
+    this.lines.push(message)
+  }
+}
+
+class Database {
+  readonly url: string
+
+  constructor(url: string) {
+    this.url = url
+  }
+}
+
+const LoggerTag = tag<Logger>('Logger')
+const DatabaseTag = tag<Database>('Database')
+const UrlTag = tag<string>('Url')
+
+class UserService {
+  static readonly tag = tag<UserService>('UserService')
+  static readonly dependencies = [DatabaseTag, LoggerTag] as const
+
+  readonly db: Database
+  readonly logger: Logger
+
+  constructor(db: Database, logger: Logger) {
+    this.db = db
+    this.logger = logger
+  }
+
+  getUser(id: string): string {
+    this.logger.log(`get ${id}`)
+    return `${this.db.url}/${id}`
+  }
+}
+
+const UserServiceTag = tag<UserService>('UserService')
+
+const DatabaseLive = Layer.class(DatabaseTag, Database, [UrlTag])
+const InfraLive = Layer.merge(
+  Layer.value(UrlTag, 'db://app'),
+  Layer.class(LoggerTag, Logger),
+  DatabaseLive,
+)
+
+describe('Layer.class', () => {
+  it('should instantiate the class with its dependencies', () => {
+    const container = createContainer(
+      Layer.merge(
+        InfraLive,
+        Layer.class(UserServiceTag, UserService, [DatabaseTag, LoggerTag]),
+      ),
+    )
+
+    const userService = container.get(UserServiceTag)
+
+    expect(userService).toBeInstanceOf(UserService)
+    expect(userService.getUser('1')).toBe('db://app/1')
+    expect(container.get(LoggerTag).lines).toEqual(['get 1'])
+  })
+
+  it('should support layer options', async () => {
+    const dispose = vi.fn()
+    const container = createContainer(
+      Layer.merge(
+        Layer.class(LoggerTag, Logger, { scope: 'transient' }),
+        Layer.class(UserServiceTag, UserService, [DatabaseTag, LoggerTag], {
+          dispose,
+        }),
+        Layer.value(UrlTag, ''),
+        DatabaseLive,
+      ),
+    )
+
+    expect(container.get(LoggerTag)).not.toBe(container.get(LoggerTag))
+    const userService = container.get(UserServiceTag)
+    await container.dispose()
+    expect(dispose).toHaveBeenCalledWith(userService)
+  })
+
+  it('should pass optional dependencies', () => {
+    class Greeter {
+      readonly logger: Logger | undefined
+
+      constructor(logger?: Logger) {
+        this.logger = logger
+      }
+    }
+    const GreeterTag = tag<Greeter>('Greeter')
+
+    const container = createContainer(
+      Layer.class(GreeterTag, Greeter, [optional(LoggerTag)]),
+    )
+
+    expect(container.get(GreeterTag).logger).toBeUndefined()
+  })
+})
+
+describe('Layer.class', () => {
+  it('should check the dependencies against the constructor', () => {
+    // @ts-expect-error - the dependencies are in the wrong order
+    Layer.class(UserServiceTag, UserService, [LoggerTag, DatabaseTag])
+    // @ts-expect-error - the Logger is missing
+    Layer.class(UserServiceTag, UserService, [DatabaseTag])
+    // @ts-expect-error - the constructor needs dependencies
+    Layer.class(UserServiceTag, UserService)
+    // @ts-expect-error - a Logger is not a UserService
+    Layer.class(UserServiceTag, Logger)
+    // @ts-expect-error - the Database constructor takes no Logger
+    Layer.class(DatabaseTag, Database, [UrlTag, LoggerTag])
+  })
+
+  it('should infer the requirements from the dependencies', () => {
+    const UserServiceLive = Layer.class(UserServiceTag, UserService, [
+      DatabaseTag,
+      LoggerTag,
+    ])
+
+    // @ts-expect-error - Database and Logger are not provided
+    expect(() => createContainer(UserServiceLive)).toThrow(
+      'Service not found: Database (UserService -> Database)',
+    )
+  })
+})
+
+describe('Layer.service', () => {
+  it('should use the tag and dependencies declared by the class', () => {
+    const container = createContainer(
+      Layer.merge(InfraLive, Layer.service(UserService, { scope: 'scoped' })),
+    )
+
+    expect(container.get(UserService.tag).getUser('2')).toBe('db://app/2')
+    expect(container.describe(UserService.tag)).toMatchObject({
+      scope: 'scoped',
+      dependencies: [DatabaseTag, LoggerTag],
+    })
+  })
+
+  it('should check the declared dependencies against the constructor', () => {
+    class Mismatched {
+      static readonly tag = tag<Mismatched>('Mismatched')
+      static readonly dependencies = [LoggerTag] as const
+
+      readonly db: Database
+
+      constructor(db: Database) {
+        this.db = db
+      }
+    }
+
+    class Extra {
+      static readonly tag = tag<Extra>('Extra')
+      static readonly dependencies = [DatabaseTag, LoggerTag] as const
+
+      readonly db: Database
+
+      constructor(db: Database) {
+        this.db = db
+      }
+    }
+
+    // @ts-expect-error - the constructor needs a Database
+    Layer.service(Mismatched)
+    // @ts-expect-error - the constructor takes no Logger
+    Layer.service(Extra)
+    // @ts-expect-error - Database and Logger are not provided
+    expect(() => createContainer(Layer.service(UserService))).toThrow(
+      'Service not found: Database (UserService -> Database)',
+    )
+  })
+})
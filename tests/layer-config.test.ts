@@ -0,0 +1,228 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { describe, expect, it } from 'vitest'
+
+import { createContainer, createContainerAsync } from '../src/container.ts'
+import { ConfigError, InitializationError } from '../src/errors.ts'
+import type { StandardSchema } from '../src/index.ts'
+import { ConfigSource, Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface AppConfig {
+  databaseUrl: string
+  port: number
+}
+
+const AppConfigTag = tag<AppConfig>('AppConfig')
+const ServerTag = tag<{ port: number }>('Server')
+
+const AppConfigSchema: StandardSchema<AppConfig> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (input) => {
+      const values = input as Record<string, unknown>
+      const issues = []
+      if (typeof values.DATABASE_URL !== 'string') {
+        issues.push({ message: 'Required', path: ['DATABASE_URL'] })
+      }
+      const port = Number(values.PORT)
+      if (!Number.isInteger(port)) {
+        issues.push({ message: 'Expected a number', path: [{ key: 'PORT' }] })
+      }
+
+      return issues.length > 0
+        ? { issues }
+        : { value: { databaseUrl: values.DATABASE_URL as string, port } }
+    },
+  },
+}
+
+function catchConfigError(fn: () => unknown): ConfigError {
+  try {
+    fn()
+  } catch (error) {
+    return error as ConfigError
+  }
+  throw new Error('Expected a ConfigError')
+}
+
+function catchError(fn: () => unknown): InitializationError {
+  try {
+    fn()
+  } catch (error) {
+    return error as InitializationError
+  }
+  throw new Error('Expected an InitializationError')
+}
+
+describe('Layer.config', () => {
+  it('should provide the validated configuration', () => {
+    const ConfigLive = Layer.config(
+      AppConfigTag,
+      AppConfigSchema,
+      ConfigSource.memory({ DATABASE_URL: 'db://app', PORT: '8080' }),
+    )
+    const ServerLive = Layer.factory(ServerTag, [AppConfigTag], (config) => ({
+      port: config.port,
+    }))
+
+    const container = createContainer(Layer.merge(ConfigLive, ServerLive))
+
+    expect(container.get(AppConfigTag)).toEqual({
+      databaseUrl: 'db://app',
+      port: 8080,
+    })
+    expect(container.get(ServerTag).port).toBe(8080)
+  })
+
+  it('should fail to create the container with every invalid key', () => {
+    const error = catchConfigError(() =>
+      createContainer(
+        Layer.config(
+          AppConfigTag,
+          AppConfigSchema,
+          ConfigSource.memory({ PORT: 'http' }),
+        ),
+      ),
+    )
+
+    expect(error).toBeInstanceOf(ConfigError)
+    expect(error.name).toBe('ConfigError')
+    expect(error.tag).toBe(AppConfigTag)
+    expect(error.issues).toEqual([
+      { key: 'DATABASE_URL', message: 'Required' },
+      { key: 'PORT', message: 'Expected a number' },
+    ])
+    expect(error.message).toBe(
+      'Invalid config: AppConfig (DATABASE_URL: Required, PORT: Expected a number)',
+    )
+  })
+
+  it('should require the schema to match the tag', () => {
+    const OtherTag = tag<{ url: string }>('Other')
+
+    // @ts-expect-error - the schema does not validate the tag's type
+    Layer.config(OtherTag, AppConfigSchema, ConfigSource.memory({}))
+  })
+})
+
+describe('Layer.config', () => {
+  it('should report issues of the whole configuration', () => {
+    const schema: StandardSchema<AppConfig> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: () => ({ issues: [{ message: 'Expected an object' }] }),
+      },
+    }
+
+    const error = catchConfigError(() =>
+      createContainer(
+        Layer.config(AppConfigTag, schema, ConfigSource.memory({})),
+      ),
+    )
+
+    expect(error.issues).toEqual([{ key: '', message: 'Expected an object' }])
+    expect(error.message).toBe('Invalid config: AppConfig (Expected an object)')
+  })
+
+  it('should reject asynchronous schemas', async () => {
+    const schema: StandardSchema<AppConfig> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: async () =>
+          Promise.resolve({ value: { databaseUrl: '', port: 0 } }),
+      },
+    }
+    const layer = Layer.config(AppConfigTag, schema, ConfigSource.memory({}))
+
+    await expect(createContainerAsync(layer)).rejects.toThrow(ConfigError)
+    expect(() => createContainer(layer)).toThrow(
+      'Invalid config: AppConfig (The schema must validate synchronously)',
+    )
+  })
+})
+
+describe('Layer.config', () => {
+  it('should report every invalid configuration before other failures', async () => {
+    const WorkerConfigTag = tag<AppConfig>('WorkerConfig')
+    const layer = Layer.merge(
+      Layer.config(AppConfigTag, AppConfigSchema, ConfigSource.memory({})),
+      Layer.factory(
+        ServerTag,
+        () => {
+          throw new Error('port in use')
+        },
+        { eager: true },
+      ),
+      Layer.config(WorkerConfigTag, AppConfigSchema, ConfigSource.memory({})),
+    )
+
+    const error = catchError(() => createContainer(layer))
+    expect(error).toBeInstanceOf(InitializationError)
+    expect(error.failures.map((failure) => failure.tag)).toEqual([
+      AppConfigTag,
+      WorkerConfigTag,
+      ServerTag,
+    ])
+    expect(error.errors[0]).toBeInstanceOf(ConfigError)
+    expect(error.errors[1]).toBeInstanceOf(ConfigError)
+
+    await expect(createContainerAsync(layer)).rejects.toThrow(
+      'Failed to initialize services: AppConfig, WorkerConfig, Server',
+    )
+  })
+})
+
+describe('ConfigSource', () => {
+  it('should read environment variables', () => {
+    const env = { APP_DATABASE_URL: 'db://env', APP_PORT: '80', PORT: '1' }
+
+    const container = createContainer(
+      Layer.config(
+        AppConfigTag,
+        AppConfigSchema,
+        ConfigSource.env({ prefix: 'APP_', env }),
+      ),
+    )
+
+    expect(container.get(AppConfigTag)).toEqual({
+      databaseUrl: 'db://env',
+      port: 80,
+    })
+    expect(ConfigSource.env().load()).toEqual(process.env)
+  })
+
+  it('should read environment variables of the process by default', () => {
+    const layer = Layer.config(AppConfigTag, AppConfigSchema)
+    process.env.DATABASE_URL = 'db://process'
+    process.env.PORT = '3000'
+
+    try {
+      expect(createContainer(layer).get(AppConfigTag).port).toBe(3000)
+    } finally {
+      delete process.env.DATABASE_URL
+      delete process.env.PORT
+    }
+  })
+
+  it('should read JSON files', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'unlayer-'))
+    const path = join(dir, 'config.json')
+    writeFileSync(path, JSON.stringify({ DATABASE_URL: 'db://file', PORT: 5 }))
+
+    try {
+      const container = createContainer(
+        Layer.config(AppConfigTag, AppConfigSchema, ConfigSource.file(path)),
+      )
+
+      expect(container.get(AppConfigTag).databaseUrl).toBe('db://file')
+    } finally {
+      rmSync(dir, { recursive: true })
+    }
+  })
+})
@@ -0,0 +1,220 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createContainer, createContainerAsync } from '../src/container.ts'
+import { ServiceNotFoundError } from '../src/errors.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface Repository {
+  find: (id: string) => string
+}
+
+interface Metrics {
+  calls: string[]
+}
+
+const RepositoryTag = tag<Repository>('Repository')
+const MetricsTag = tag<Metrics>('Metrics')
+const ServiceTag = tag<{ repository: Repository }>('Service')
+const PluginsTag = tag.many<string>('Plugins')
+
+const RepositoryLive = Layer.factory(RepositoryTag, () => ({
+  find: (id) => `user ${id}`,
+}))
+
+const MetricsLive = Layer.factory(MetricsTag, () => ({ calls: [] }))
+
+const WithMetrics = Layer.decorate(
+  RepositoryTag,
+  [MetricsTag],
+  (inner, metrics) => ({
+    find: (id) => {
+      metrics.calls.push(id)
+      return inner.find(id)
+    },
+  }),
+)
+
+describe('Layer.decorate', () => {
+  it('should wrap the service provided by another layer', () => {
+    const container = createContainer(
+      Layer.merge(
+        RepositoryLive,
+        MetricsLive,
+        WithMetrics,
+        Layer.factory(ServiceTag, [RepositoryTag], (repository) => ({
+          repository,
+        })),
+      ),
+    )
+
+    expect(container.get(ServiceTag).repository.find('1')).toBe('user 1')
+    expect(container.get(RepositoryTag).find('2')).toBe('user 2')
+    expect(container.get(MetricsTag).calls).toEqual(['1', '2'])
+    expect(container.tags()).toEqual([RepositoryTag, MetricsTag, ServiceTag])
+  })
+
+  it('should apply decorators in order, the last one outermost', () => {
+    const container = createContainer(
+      Layer.merge(
+        RepositoryLive,
+        Layer.decorate(RepositoryTag, (inner) => ({
+          find: (id) => `(${inner.find(id)})`,
+        })),
+        Layer.decorate(RepositoryTag, (inner) => ({
+          find: (id) => `[${inner.find(id)}]`,
+        })),
+      ),
+    )
+
+    expect(container.get(RepositoryTag).find('1')).toBe('[(user 1)]')
+  })
+})
+
+describe('Layer.decorate', () => {
+  it('should wrap the replacement of an overridden service', () => {
+    const container = createContainer(
+      Layer.override(
+        Layer.merge(RepositoryLive, MetricsLive, WithMetrics),
+        Layer.value(RepositoryTag, { find: () => 'mock' }),
+      ),
+    )
+
+    expect(container.get(RepositoryTag).find('1')).toBe('mock')
+    expect(container.get(MetricsTag).calls).toEqual(['1'])
+  })
+
+  it('should decorate a service of a layer through Layer.override', () => {
+    const AppLive = Layer.merge(RepositoryLive, MetricsLive)
+
+    const container = createContainer(Layer.override(AppLive, WithMetrics))
+    container.get(RepositoryTag).find('1')
+
+    expect(container.get(MetricsTag).calls).toEqual(['1'])
+  })
+
+  it('should require the decorated service', () => {
+    const layer = Layer.merge(MetricsLive, WithMetrics)
+
+    // @ts-expect-error - Repository is not provided
+    expect(() => createContainer(layer)).toThrow(ServiceNotFoundError)
+  })
+})
+
+describe('Layer.decorate', () => {
+  it('should keep the disposer of the decorated service', async () => {
+    const dispose = vi.fn()
+    const closed = vi.fn()
+    const inner = { find: (id: string) => id, [Symbol.dispose]: closed }
+    const container = createContainer(
+      Layer.merge(
+        Layer.factory(RepositoryTag, () => inner, { dispose }),
+        Layer.decorate(RepositoryTag, (repository) => ({ ...repository })),
+      ),
+    )
+    expect(container.get(RepositoryTag)).not.toBe(inner)
+
+    await container.dispose()
+
+    expect(dispose).toHaveBeenCalledExactlyOnceWith(inner)
+    expect(closed).not.toHaveBeenCalled()
+  })
+
+  it('should keep the scope of the decorated service', () => {
+    const container = createContainer(
+      Layer.merge(
+        Layer.factory(RepositoryTag, () => ({ find: (id) => id }), {
+          scope: 'scoped',
+        }),
+        Layer.decorate(RepositoryTag, (inner) => ({ ...inner })),
+      ),
+    )
+    const scope = container.createScope()
+
+    expect(scope.get(RepositoryTag)).toBe(scope.get(RepositoryTag))
+    expect(scope.get(RepositoryTag)).not.toBe(
+      container.createScope().get(RepositoryTag),
+    )
+    expect(container.describe(RepositoryTag).scope).toBe('scoped')
+  })
+
+  it('should wrap asynchronous services', async () => {
+    const container = await createContainerAsync(
+      Layer.merge(
+        Layer.effect(RepositoryTag, async () =>
+          Promise.resolve({ find: (id: string) => `async ${id}` }),
+        ),
+        Layer.decorate(RepositoryTag, (inner) => ({
+          find: (id) => inner.find(id).toUpperCase(),
+        })),
+      ),
+    )
+
+    expect(container.get(RepositoryTag).find('1')).toBe('ASYNC 1')
+  })
+})
+
+describe('Layer.decorate', () => {
+  it('should wrap multi-binding tags', () => {
+    const container = createContainer(
+      Layer.merge(
+        Layer.multi(PluginsTag, () => 'a'),
+        Layer.multi(PluginsTag, () => 'b'),
+        Layer.decorate(PluginsTag, (plugins) => [...plugins].reverse()),
+      ),
+    )
+
+    expect(container.get(PluginsTag)).toEqual(['b', 'a'])
+  })
+
+  it('should appear in the graph, hiding the decorated service', () => {
+    const graph = Layer.graph(Layer.merge(RepositoryLive, WithMetrics))
+
+    expect(graph.nodes).toEqual([
+      {
+        tag: RepositoryTag,
+        scope: 'singleton',
+        origin: 'decorate',
+        hidden: false,
+      },
+      {
+        tag: expect.objectContaining({ name: 'Repository' }) as unknown,
+        scope: 'singleton',
+        origin: 'factory',
+        hidden: true,
+      },
+    ])
+    expect(graph.edges).toEqual([
+      {
+        from: RepositoryTag,
+        to: graph.nodes[1].tag,
+        fromIndex: 0,
+        toIndex: 1,
+        kind: 'required',
+      },
+    ])
+  })
+})
+
+describe('Layer.decorate', () => {
+  it('should describe the disposer of the decorated service', () => {
+    const closed = vi.fn()
+    const container = createContainer(
+      Layer.merge(
+        Layer.factory(RepositoryTag, () => ({
+          find: (id: string) => id,
+          [Symbol.dispose]: closed,
+        })),
+        Layer.decorate(RepositoryTag, (repository) => ({ ...repository })),
+        Layer.decorate(RepositoryTag, (repository) => ({ ...repository })),
+      ),
+    )
+    expect(container.describe(RepositoryTag).disposable).toBe(false)
+
+    container.get(RepositoryTag)
+    expect(container.describe(RepositoryTag)).toMatchObject({
+      disposable: true,
+      instantiated: true,
+    })
+  })
+})
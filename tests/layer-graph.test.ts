@@ -0,0 +1,243 @@
+import { describe, expect, it } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import {
+  Layer,
+  lazy,
+  optional,
+  toDot,
+  toJson,
+  toMermaid,
+} from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface Config {
+  url: string
+}
+
+interface Database {
+  query: (sql: string) => string
+}
+
+interface Cache {
+  get: (key: string) => string | undefined
+}
+
+interface UserService {
+  getUser: (id: string) => string
+}
+
+const ConfigTag = tag<Config>('Config')
+const DatabaseTag = tag<Database>('Database')
+const CacheTag = tag<Cache>('Cache')
+const UserServiceTag = tag<UserService>('UserService')
+const PluginsTag = tag.many<string>('Plugins')
+
+const DatabaseLive = Layer.effect(DatabaseTag, [ConfigTag], async (config) =>
+  Promise.resolve({ query: () => config.url }),
+)
+
+const UserServiceLive = Layer.factory(
+  UserServiceTag,
+  [DatabaseTag, optional(CacheTag), lazy(ConfigTag)],
+  (db) => ({ getUser: (id) => db.query(id) }),
+  { scope: 'scoped' },
+)
+
+const CacheLive = Layer.factory(CacheTag, () => ({ get: () => undefined }), {
+  scope: 'transient',
+})
+
+const AppLive = Layer.merge(
+  Layer.provide(UserServiceLive, DatabaseLive),
+  Layer.value(ConfigTag, { url: 'db://app' }),
+)
+
+describe('Layer.graph', () => {
+  it('should describe the services and their dependencies', () => {
+    const graph = Layer.graph(AppLive)
+
+    expect(graph.nodes).toEqual([
+      {
+        tag: UserServiceTag,
+        scope: 'scoped',
+        origin: 'factory',
+        hidden: false,
+      },
+      { tag: DatabaseTag, scope: 'singleton', origin: 'effect', hidden: true },
+      { tag: ConfigTag, scope: 'singleton', origin: 'value', hidden: false },
+    ])
+    expect(graph.edges).toEqual([
+      {
+        from: UserServiceTag,
+        to: DatabaseTag,
+        fromIndex: 0,
+        toIndex: 1,
+        kind: 'required',
+      },
+      {
+        from: UserServiceTag,
+        to: ConfigTag,
+        fromIndex: 0,
+        toIndex: 2,
+        kind: 'lazy',
+      },
+      {
+        from: DatabaseTag,
+        to: ConfigTag,
+        fromIndex: 1,
+        toIndex: 2,
+        kind: 'required',
+      },
+    ])
+  })
+})
+
+describe('Layer.graph', () => {
+  it('should describe multi-bindings by their contributions', () => {
+    const graph = Layer.graph(
+      Layer.merge(
+        Layer.multi(PluginsTag, () => 'auth'),
+        Layer.multi(PluginsTag, () => 'metrics'),
+      ),
+    )
+
+    const [plugins] = graph.nodes.filter((node) => node.tag === PluginsTag)
+    expect(plugins.origin).toBe('multi')
+    expect(
+      graph.edges.map((edge) => [edge.from.name, edge.to.name]),
+    ).toContainEqual(['Plugins', 'Plugins[1]'])
+  })
+
+  it('should leave out services the layer does not provide', () => {
+    const graph = Layer.graph(UserServiceLive)
+
+    expect(graph.nodes.map((node) => node.tag)).toEqual([UserServiceTag])
+    expect(graph.edges).toEqual([])
+  })
+
+  it('should match the graph of a container', () => {
+    const container = createContainer(AppLive)
+
+    expect(container.graph()).toEqual(Layer.graph(AppLive))
+    expect(container.createScope().graph()).toEqual(container.graph())
+  })
+})
+
+describe('graph serializers', () => {
+  it('should serialize to Graphviz DOT', () => {
+    expect(toDot(Layer.graph(AppLive))).toBe(
+      [
+        'digraph {',
+        '  n0 [label="UserService (scoped)"]',
+        '  n1 [label="Database (singleton)"]',
+        '  n2 [label="Config (singleton)"]',
+        '  n0 -> n1',
+        '  n0 -> n2 [style=dotted]',
+        '  n1 -> n2',
+        '}',
+      ].join('\n'),
+    )
+  })
+
+  it('should serialize to Mermaid', () => {
+    expect(toMermaid(Layer.graph(Layer.merge(AppLive, CacheLive)))).toBe(
+      [
+        'flowchart TD',
+        '  n0["UserService (scoped)"]',
+        '  n1["Database (singleton)"]',
+        '  n2["Config (singleton)"]',
+        '  n3["Cache (transient)"]',
+        '  n0 --> n1',
+        '  n0 -. optional .-> n3',
+        '  n0 -. lazy .-> n2',
+        '  n1 --> n2',
+      ].join('\n'),
+    )
+  })
+
+  it('should escape tag names', () => {
+    const QuotedTag = tag<Cache>('Cache "LRU"')
+    const quoted = Layer.graph(Layer.value(QuotedTag, { get: () => undefined }))
+
+    expect(toDot(quoted)).toContain('n0 [label="Cache \\"LRU\\" (singleton)"]')
+    expect(toMermaid(quoted)).toContain(
+      'n0["Cache #quot;LRU#quot; (singleton)"]',
+    )
+  })
+})
+
+describe('graph serializers', () => {
+  it('should serialize to JSON with node ids', () => {
+    expect(JSON.parse(toJson(Layer.graph(AppLive)))).toEqual({
+      nodes: [
+        {
+          id: 'n0',
+          name: 'UserService',
+          scope: 'scoped',
+          origin: 'factory',
+          hidden: false,
+        },
+        {
+          id: 'n1',
+          name: 'Database',
+          scope: 'singleton',
+          origin: 'effect',
+          hidden: true,
+        },
+        {
+          id: 'n2',
+          name: 'Config',
+          scope: 'singleton',
+          origin: 'value',
+          hidden: false,
+        },
+      ],
+      edges: [
+        { from: 'n0', to: 'n1', kind: 'required' },
+        { from: 'n0', to: 'n2', kind: 'lazy' },
+        { from: 'n1', to: 'n2', kind: 'required' },
+      ],
+    })
+  })
+})
+
+describe('graph serializers', () => {
+  it('should tell apart private services of the same tag', () => {
+    const ReportServiceTag = tag<UserService>('ReportService')
+    const ReportServiceLive = Layer.factory(
+      ReportServiceTag,
+      [DatabaseTag],
+      (db) => ({ getUser: (id) => db.query(id) }),
+    )
+    const graph = Layer.graph(
+      Layer.merge(AppLive, Layer.provide(ReportServiceLive, DatabaseLive)),
+    )
+
+    expect(toDot(graph)).toBe(
+      [
+        'digraph {',
+        '  n0 [label="UserService (scoped)"]',
+        '  n1 [label="Database (singleton)"]',
+        '  n2 [label="Config (singleton)"]',
+        '  n3 [label="ReportService (singleton)"]',
+        '  n4 [label="Database (singleton)"]',
+        '  n0 -> n1',
+        '  n0 -> n2 [style=dotted]',
+        '  n1 -> n2',
+        '  n3 -> n4',
+        '  n4 -> n2',
+        '}',
+      ].join('\n'),
+    )
+    const { nodes, edges } = JSON.parse(toJson(graph)) as {
+      nodes: { id: string }[]
+      edges: { from: string; to: string }[]
+    }
+    expect(nodes.map((node) => node.id)).toEqual(['n0', 'n1', 'n2', 'n3', 'n4'])
+    expect(edges.slice(3)).toEqual([
+      { from: 'n3', to: 'n4', kind: 'required' },
+      { from: 'n4', to: 'n2', kind: 'required' },
+    ])
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface Config {
+  url: string
+  port: number
+}
+
+const ConfigTag = tag<Config>('Config')
+const UrlTag = tag<string>('Url')
+const PortTag = tag<number>('Port')
+
+const ConfigLive = Layer.value(ConfigTag, { url: 'db://app', port: 80 })
+
+describe('Layer.map', () => {
+  it('should provide a service derived from the service of the layer', () => {
+    const UrlLive = Layer.map(ConfigLive, UrlTag, (config) => config.url)
+
+    const container = createContainer(UrlLive)
+
+    expect(container.get(UrlTag)).toBe('db://app')
+    expect(container.has(ConfigTag)).toBe(false)
+  })
+
+  it('should keep the requirements and the scope of the layer', () => {
+    let created = 0
+    const ScopedConfigLive = Layer.factory(
+      ConfigTag,
+      [PortTag],
+      (port) => ({ url: `db://${created++}`, port }),
+      { scope: 'scoped' },
+    )
+    const UrlLive = Layer.map(ScopedConfigLive, UrlTag, (config) => config.url)
+
+    // @ts-expect-error - Port is not provided
+    expect(() => createContainer(UrlLive)).toThrow('Service not found: Port')
+
+    const container = createContainer(
+      Layer.merge(UrlLive, Layer.value(PortTag, 80)),
+    )
+
+    expect(container.describe(UrlTag).scope).toBe('scoped')
+    expect(container.createScope().get(UrlTag)).toBe('db://0')
+    expect(container.createScope().get(UrlTag)).toBe('db://1')
+  })
+
+  it('should type the service passed to the function', () => {
+    // @ts-expect-error - the service is a Config
+    Layer.map(ConfigLive, UrlTag, (config: { name: string }) => config.name)
+    // @ts-expect-error - a Url is a string
+    Layer.map(ConfigLive, UrlTag, (config) => config.port)
+  })
+
+  it('should reject layers providing more than one service', () => {
+    const AppLive = Layer.merge(ConfigLive, Layer.value(PortTag, 80))
+
+    expect(() => Layer.map(AppLive, UrlTag, () => '')).toThrow(
+      'Layer.map expects a layer providing one service, got 2',
+    )
+  })
+})
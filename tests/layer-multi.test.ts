@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createContainer, createContainerAsync } from '../src/container.ts'
+import { DuplicateTagError } from '../src/errors.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface HealthCheck {
+  name: string
+  check: () => boolean
+}
+
+const HealthChecksTag = tag.many<HealthCheck>('HealthChecks')
+const DatabaseTag = tag<{ connected: boolean }>('Database')
+
+const DatabaseLive = Layer.value(DatabaseTag, { connected: true })
+
+const DatabaseCheck = Layer.multi(HealthChecksTag, [DatabaseTag], (db) => ({
+  name: 'database',
+  check: () => db.connected,
+}))
+const DiskCheck = Layer.multi(HealthChecksTag, () => ({
+  name: 'disk',
+  check: () => true,
+}))
+
+describe('Layer.multi', () => {
+  it('should collect every contribution in order', () => {
+    const container = createContainer(
+      Layer.merge(DatabaseLive, DatabaseCheck, DiskCheck),
+    )
+
+    const checks = container.get(HealthChecksTag)
+
+    expect(checks.map((check) => check.name)).toEqual(['database', 'disk'])
+    expect(checks.every((check) => check.check())).toBe(true)
+    expect(container.get(HealthChecksTag)).toBe(checks)
+  })
+
+  it('should inject the collection into other services', async () => {
+    const HealthTag = tag<{ status: () => string[] }>('Health')
+    const healthLayer = Layer.factory(
+      HealthTag,
+      [HealthChecksTag],
+      (checks) => ({ status: () => checks.map((check) => check.name) }),
+    )
+
+    const container = await createContainerAsync(
+      Layer.merge(DiskCheck, healthLayer, DatabaseCheck, DatabaseLive),
+    )
+
+    expect((await container.getAsync(HealthTag)).status()).toEqual([
+      'disk',
+      'database',
+    ])
+  })
+
+  it('should require the dependencies of every contribution', () => {
+    const layer = Layer.merge(DatabaseCheck, DiskCheck)
+
+    // @ts-expect-error - Database is required but not provided
+    expect(() => createContainer(layer)).toThrow(
+      'Service not found: Database (HealthChecks[0] -> Database)',
+    )
+  })
+})
+
+describe('Layer.multi', () => {
+  it('should dispose each contribution with its own disposer', async () => {
+    const disposeA = vi.fn()
+    const disposeB = vi.fn()
+    const PluginsTag = tag.many<{ id: string }>('Plugins')
+
+    const container = createContainer(
+      Layer.merge(
+        Layer.multi(PluginsTag, () => ({ id: 'a' }), { dispose: disposeA }),
+        Layer.multi(PluginsTag, () => ({ id: 'b' }), { dispose: disposeB }),
+      ),
+    )
+    const [a, b] = container.get(PluginsTag)
+
+    await container.dispose()
+
+    expect(disposeA).toHaveBeenCalledWith(a)
+    expect(disposeB).toHaveBeenCalledWith(b)
+  })
+
+  it('should follow the shortest-lived contribution', () => {
+    const PluginsTag = tag.many<{ id: number }>('Plugins')
+    let count = 0
+
+    const container = createContainer(
+      Layer.merge(
+        Layer.multi(PluginsTag, () => ({ id: 0 })),
+        Layer.multi(PluginsTag, () => ({ id: ++count }), { scope: 'scoped' }),
+      ),
+    )
+
+    const scope1 = container.createScope()
+    const scope2 = container.createScope()
+
+    expect(scope1.get(PluginsTag)).toBe(scope1.get(PluginsTag))
+    expect(scope1.get(PluginsTag)).not.toBe(scope2.get(PluginsTag))
+    expect(scope1.get(PluginsTag)[0]).toBe(scope2.get(PluginsTag)[0])
+  })
+})
+
+describe('Layer.multi', () => {
+  it('should create new collections for transient contributions', () => {
+    const PluginsTag = tag.many<{ id: number }>('Plugins')
+    let count = 0
+
+    const container = createContainer(
+      Layer.merge(
+        Layer.multi(PluginsTag, () => ({ id: ++count }), {
+          scope: 'transient',
+        }),
+        Layer.multi(PluginsTag, () => ({ id: 0 }), { scope: 'scoped' }),
+      ),
+    )
+
+    expect(container.get(PluginsTag)[0].id).toBe(1)
+    expect(container.get(PluginsTag)[0].id).toBe(2)
+  })
+
+  it('should count a contribution merged twice once', () => {
+    const container = createContainer(
+      Layer.merge([DiskCheck, DiskCheck], { duplicates: 'first-wins' }),
+    )
+
+    expect(container.get(HealthChecksTag)).toHaveLength(1)
+  })
+
+  it('should reject a tag provided by contributions and a regular layer', () => {
+    const layer = Layer.merge(
+      DiskCheck,
+      Layer.value(HealthChecksTag, [{ name: 'static', check: () => true }]),
+    )
+
+    expect(() => createContainer(layer)).toThrow(DuplicateTagError)
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import { OverrideError } from '../src/errors.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface Database {
+  query: (sql: string) => string
+}
+
+interface Mailer {
+  send: (to: string) => string
+}
+
+interface UserService {
+  register: (email: string) => string
+}
+
+const DatabaseTag = tag<Database>('Database')
+const MailerTag = tag<Mailer>('Mailer')
+const UserServiceTag = tag<UserService>('UserService')
+
+const AppLive = Layer.merge(
+  Layer.factory(DatabaseTag, () => ({ query: (sql) => `db: ${sql}` })),
+  Layer.factory(MailerTag, () => ({ send: (to) => `smtp: ${to}` })),
+  Layer.factory(UserServiceTag, [DatabaseTag, MailerTag], (db, mailer) => ({
+    register: (email) => `${db.query('insert')}, ${mailer.send(email)}`,
+  })),
+)
+
+describe('Layer.override', () => {
+  it('should replace services and keep the layer types', () => {
+    const mailer = { send: vi.fn((to: string) => `mock: ${to}`) }
+
+    const container = createContainer(
+      Layer.override(AppLive, Layer.value(MailerTag, mailer)),
+    )
+
+    expect(container.get(UserServiceTag).register('a@example.com')).toBe(
+      'db: insert, mock: a@example.com',
+    )
+    expect(container.get(MailerTag)).toBe(mailer)
+    expect(mailer.send).toHaveBeenCalledTimes(1)
+  })
+
+  it('should replace several services at once', () => {
+    const container = createContainer(
+      Layer.override(
+        AppLive,
+        Layer.merge(
+          Layer.value(DatabaseTag, { query: () => 'fake db' }),
+          Layer.factory(MailerTag, [DatabaseTag], (db) => ({
+            send: () => db.query(''),
+          })),
+        ),
+      ),
+    )
+
+    expect(container.get(UserServiceTag).register('')).toBe('fake db, fake db')
+  })
+
+  it('should replace services of an override', () => {
+    const TestLive = Layer.override(
+      Layer.override(AppLive, Layer.value(MailerTag, { send: () => 'first' })),
+      Layer.value(MailerTag, { send: () => 'second' }),
+    )
+
+    const container = createContainer(TestLive)
+
+    expect(container.get(MailerTag).send('')).toBe('second')
+  })
+})
+
+describe('Layer.override', () => {
+  it('should require dependencies of the replacement', () => {
+    const ClockTag = tag<{ now: () => number }>('Clock')
+
+    const TestLive = Layer.override(
+      AppLive,
+      Layer.factory(MailerTag, [ClockTag], (clock) => ({
+        send: () => String(clock.now()),
+      })),
+    )
+
+    // @ts-expect-error - Clock is required but not provided
+    expect(() => createContainer(TestLive)).toThrow(
+      'Service not found: Clock (Mailer -> Clock)',
+    )
+
+    const container = createContainer(
+      Layer.merge(TestLive, Layer.value(ClockTag, { now: () => 42 })),
+    )
+
+    expect(container.get(MailerTag).send('')).toBe('42')
+  })
+
+  it('should reject services the base layer does not provide', () => {
+    const CacheTag = tag<{ get: (key: string) => string }>('Cache')
+    const replacement = Layer.value(CacheTag, { get: () => '' })
+
+    let error: unknown
+    try {
+      // @ts-expect-error - Cache is not provided by AppLive
+      Layer.override(AppLive, replacement)
+    } catch (e) {
+      error = e
+    }
+
+    expect(error).toBeInstanceOf(OverrideError)
+    expect((error as OverrideError).tag).toBe(CacheTag)
+    expect((error as OverrideError).message).toBe(
+      'Cannot override service: Cache is not provided by the base layer',
+    )
+  })
+})
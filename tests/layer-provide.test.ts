@@ -0,0 +1,277 @@
+import { describe, expect, it } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import {
+  AsyncServiceError,
+  DisposalError,
+  FactoryError,
+  ServiceNotFoundError,
+} from '../src/errors.ts'
+import { Layer, lazy, optional } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface Config {
+  url: string
+}
+
+interface UserRepository {
+  find: (id: string) => string
+}
+
+interface UserService {
+  getUser: (id: string) => string
+}
+
+const ConfigTag = tag<Config>('Config')
+const UserRepositoryTag = tag<UserRepository>('UserRepository')
+const UserServiceTag = tag<UserService>('UserService')
+
+const ConfigLive = Layer.value(ConfigTag, { url: 'db://users' })
+
+const UserRepositoryLive = Layer.factory(
+  UserRepositoryTag,
+  [ConfigTag],
+  (config) => ({ find: (id) => `${config.url}/${id}` }),
+)
+
+const UserServiceImpl = Layer.factory(
+  UserServiceTag,
+  [UserRepositoryTag],
+  (repository) => ({ getUser: (id) => repository.find(id) }),
+)
+
+const OrderServiceTag = tag<UserService>('OrderService')
+const OrderServiceImpl = Layer.factory(
+  OrderServiceTag,
+  [UserRepositoryTag],
+  (repository) => ({ getUser: (id) => repository.find(id) }),
+)
+
+function repositoryLive(name: string) {
+  return Layer.value(UserRepositoryTag, { find: (id) => `${name}/${id}` })
+}
+
+function catchError(fn: () => unknown): unknown {
+  try {
+    fn()
+  } catch (error) {
+    return error
+  }
+  throw new Error('Expected an error')
+}
+
+describe('Layer.provide', () => {
+  it('should satisfy requirements with the provider', () => {
+    const UserServiceLive = Layer.provide(
+      Layer.provide(UserServiceImpl, UserRepositoryLive),
+      ConfigLive,
+    )
+
+    const container = createContainer(UserServiceLive)
+
+    expect(container.get(UserServiceTag).getUser('1')).toBe('db://users/1')
+  })
+
+  it('should keep the provider requirements', () => {
+    const UserServiceLive = Layer.provide(UserServiceImpl, UserRepositoryLive)
+
+    // @ts-expect-error - Config is required but not provided
+    expect(() => createContainer(UserServiceLive)).toThrow(
+      'Service not found: Config (UserRepository -> Config)',
+    )
+
+    const container = createContainer(Layer.merge(UserServiceLive, ConfigLive))
+
+    expect(container.get(UserServiceTag).getUser('2')).toBe('db://users/2')
+  })
+
+  it('should hide the provided services from the container', async () => {
+    const container = createContainer(
+      Layer.provide(
+        UserServiceImpl,
+        Layer.merge(UserRepositoryLive, ConfigLive),
+      ),
+    )
+
+    // @ts-expect-error - UserRepository is hidden by Layer.provide
+    expect(() => container.get(UserRepositoryTag)).toThrow(ServiceNotFoundError)
+    // @ts-expect-error - Config is hidden by Layer.provide
+    await expect(container.getAsync(ConfigTag)).rejects.toThrow(
+      'Service not found: Config',
+    )
+    expect(container.get(UserServiceTag).getUser('3')).toBe('db://users/3')
+  })
+})
+
+describe('Layer.provide', () => {
+  it('should expose services that another layer also provides', () => {
+    const container = createContainer(
+      Layer.merge(
+        [
+          Layer.provide(
+            UserServiceImpl,
+            Layer.merge(UserRepositoryLive, ConfigLive),
+          ),
+          ConfigLive,
+        ],
+        { duplicates: 'last-wins' },
+      ),
+    )
+
+    expect(container.get(ConfigTag)).toEqual({ url: 'db://users' })
+    // @ts-expect-error - UserRepository is hidden by Layer.provide
+    expect(() => container.get(UserRepositoryTag)).toThrow(ServiceNotFoundError)
+  })
+
+  it('should not satisfy other requirements with hidden services', () => {
+    const AuditTag = tag<{ user: UserRepository }>('Audit')
+    const auditLayer = Layer.factory(AuditTag, [UserRepositoryTag], (user) => ({
+      user,
+    }))
+
+    const layer = Layer.merge(
+      auditLayer,
+      Layer.provide(UserServiceImpl, UserRepositoryLive),
+      ConfigLive,
+    )
+
+    // @ts-expect-error - UserRepository is hidden by Layer.provide
+    expect(() => createContainer(layer)).toThrow(
+      'Service not found: UserRepository (Audit -> UserRepository)',
+    )
+  })
+})
+
+describe('Layer.provide', () => {
+  it('should keep providers of the same tag private to their consumer', () => {
+    const container = createContainer(
+      Layer.merge(
+        Layer.provide(UserServiceImpl, repositoryLive('users')),
+        Layer.provide(OrderServiceImpl, repositoryLive('orders')),
+      ),
+    )
+
+    expect(container.get(UserServiceTag).getUser('1')).toBe('users/1')
+    expect(container.get(OrderServiceTag).getUser('2')).toBe('orders/2')
+  })
+
+  it('should not collide with a service of the same tag merged alongside', () => {
+    const container = createContainer(
+      Layer.merge(
+        Layer.provide(UserServiceImpl, repositoryLive('library')),
+        repositoryLive('app'),
+        OrderServiceImpl,
+      ),
+    )
+
+    expect(container.get(UserServiceTag).getUser('1')).toBe('library/1')
+    expect(container.get(OrderServiceTag).getUser('2')).toBe('app/2')
+    expect(container.get(UserRepositoryTag).find('3')).toBe('app/3')
+    const repositories = container
+      .graph()
+      .nodes.filter((node) => node.tag === UserRepositoryTag)
+    expect(repositories.map((node) => node.hidden)).toEqual([true, false])
+  })
+})
+
+describe('Layer.provide', () => {
+  it('should pass private services to optional and lazy dependencies', () => {
+    const container = createContainer(
+      Layer.provide(
+        Layer.factory(
+          UserServiceTag,
+          [optional(UserRepositoryTag), lazy(ConfigTag)],
+          (repository, getConfig) => ({
+            getUser: (id) => `${repository?.find(id)} ${getConfig().url}`,
+          }),
+        ),
+        Layer.merge(repositoryLive('users'), ConfigLive),
+      ),
+    )
+
+    expect(container.get(UserServiceTag).getUser('1')).toBe(
+      'users/1 db://users',
+    )
+  })
+})
+
+describe('Layer.provide', () => {
+  it('should report the public tags of private services in errors', () => {
+    const container = createContainer(
+      Layer.provide(
+        UserServiceImpl,
+        Layer.factory(UserRepositoryTag, () => {
+          throw new Error('connection refused')
+        }),
+      ),
+    )
+
+    const error = catchError(() => container.get(UserServiceTag))
+    expect(error).toBeInstanceOf(FactoryError)
+    expect((error as FactoryError).tag).toBe(UserRepositoryTag)
+    expect((error as FactoryError).path).toEqual([
+      UserServiceTag,
+      UserRepositoryTag,
+    ])
+  })
+
+  it('should report the public tags of private effects and disposers', async () => {
+    const effectContainer = createContainer(
+      Layer.provide(
+        UserServiceImpl,
+        Layer.effect(UserRepositoryTag, async () =>
+          Promise.resolve({ find: (id: string) => id }),
+        ),
+      ),
+    )
+    const error = catchError(() => effectContainer.get(UserServiceTag))
+    expect((error as AsyncServiceError).tag).toBe(UserRepositoryTag)
+
+    const container = createContainer(
+      Layer.provide(
+        UserServiceImpl,
+        Layer.factory(UserRepositoryTag, () => ({ find: (id) => id }), {
+          dispose: () => {
+            throw new Error('close failed')
+          },
+        }),
+      ),
+    )
+    container.get(UserServiceTag)
+    const disposalError = await container.dispose().catch((e: unknown) => e)
+    expect((disposalError as DisposalError).failures[0].tag).toBe(
+      UserRepositoryTag,
+    )
+  })
+})
+
+describe('Layer.provideMerge', () => {
+  it('should keep the provided services visible', () => {
+    const UserServiceLive = Layer.provideMerge(
+      UserServiceImpl,
+      Layer.provide(UserRepositoryLive, ConfigLive),
+    )
+
+    const container = createContainer(UserServiceLive)
+
+    expect(container.get(UserServiceTag).getUser('4')).toBe('db://users/4')
+    expect(container.get(UserRepositoryTag).find('5')).toBe('db://users/5')
+    // @ts-expect-error - Config is hidden by the inner Layer.provide
+    expect(() => container.get(ConfigTag)).toThrow(ServiceNotFoundError)
+  })
+
+  it('should share provided singletons with the consumer', () => {
+    const container = createContainer(
+      Layer.provideMerge(
+        Layer.factory(UserServiceTag, [ConfigTag], (config) => ({
+          getUser: () => config.url,
+        })),
+        Layer.factory(ConfigTag, () => ({ url: 'db://shared' })),
+      ),
+    )
+
+    expect(container.get(UserServiceTag).getUser('')).toBe(
+      container.get(ConfigTag).url,
+    )
+  })
+})
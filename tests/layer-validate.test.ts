@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  CircularDependencyError,
+  DuplicateTagError,
+  ScopeViolationError,
+  ServiceNotFoundError,
+} from '../src/errors.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+const DatabaseTag = tag<{ find: () => void }>('Database')
+const CacheTag = tag<{ get: () => void }>('Cache')
+const UserServiceTag = tag<{ getUser: () => void }>('UserService')
+
+describe('Layer.validate', () => {
+  it('should return no errors for a valid layer', () => {
+    const layer = Layer.merge(
+      Layer.value(DatabaseTag, { find: () => {} }),
+      Layer.factory(UserServiceTag, [DatabaseTag], (db) => ({
+        getUser: () => db.find(),
+      })),
+    )
+
+    expect(Layer.validate(layer)).toEqual([])
+  })
+
+  it('should return every problem without throwing', () => {
+    const layer = Layer.merge(
+      Layer.factory(UserServiceTag, [DatabaseTag, CacheTag], () => ({
+        getUser: () => {},
+      })),
+      Layer.factory(CacheTag, [CacheTag], () => ({ get: () => {} })),
+      Layer.value(CacheTag, { get: () => {} }),
+      Layer.factory(CacheTag, [CacheTag], () => ({ get: () => {} })),
+    )
+
+    const errors = Layer.validate(layer)
+
+    expect(errors).toHaveLength(3)
+    expect(errors[0]).toBeInstanceOf(ServiceNotFoundError)
+    expect(errors[0].message).toBe(
+      'Service not found: Database (UserService -> Database)',
+    )
+    expect(errors[1]).toBeInstanceOf(CircularDependencyError)
+    expect(errors[1].message).toBe(
+      'Circular dependency detected: Cache -> Cache',
+    )
+    expect(errors[2]).toBeInstanceOf(DuplicateTagError)
+  })
+})
+
+describe('Layer.validate', () => {
+  it('should report scope violations', () => {
+    const layer = Layer.merge(
+      Layer.factory(DatabaseTag, () => ({ find: () => {} }), {
+        scope: 'scoped',
+      }),
+      Layer.factory(UserServiceTag, [DatabaseTag], (db) => ({
+        getUser: () => db.find(),
+      })),
+    )
+
+    const [error] = Layer.validate(layer)
+    expect(error).toBeInstanceOf(ScopeViolationError)
+    expect(error).toMatchObject({
+      name: 'ScopeViolationError',
+      tag: UserServiceTag,
+      scopedTag: DatabaseTag,
+      message:
+        'Singleton service UserService cannot depend on scoped service Database',
+    })
+  })
+})
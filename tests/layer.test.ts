@@ -170,3 +170,32 @@ describe('Layer.merge options', () => {
     expect(impl.mergeOptions?.allowDuplicates).toBe(true)
   })
 })
+
+describe('Layer.effect', () => {
+  it('should create an effect layer without dependencies', () => {
+    const DatabaseTag = tag<{ url: string }>('Database')
+
+    const databaseLayer = Layer.effect(DatabaseTag, () =>
+      Promise.resolve({ url: 'postgres://localhost' }),
+    )
+
+    const impl = getLayerImpl(databaseLayer)
+    expect(impl.isEffect()).toBe(true)
+    expect(impl.isFactory()).toBe(false)
+    expect(impl.dependencies).toEqual([])
+  })
+
+  it('should create an effect layer with dependencies', () => {
+    const ConfigTag = tag<{ url: string }>('Config')
+    const DatabaseTag = tag<{ url: string }>('Database')
+
+    const databaseLayer = Layer.effect(DatabaseTag, [ConfigTag], (config) =>
+      Promise.resolve({ url: config.url }),
+    )
+
+    const impl = getLayerImpl(databaseLayer)
+    expect(impl.isEffect()).toBe(true)
+    expect(impl.dependencies).toEqual([ConfigTag])
+    expect(impl.tag).toBe(DatabaseTag)
+  })
+})
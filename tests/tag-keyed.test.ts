@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+
+import { createContainer } from '../src/container.ts'
+import { ServiceNotFoundError } from '../src/errors.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+
+interface Database {
+  url: string
+}
+
+const DatabaseTag = tag.keyed<Database, 'primary' | 'replica' | 'analytics'>(
+  'Database',
+)
+const ReportsTag = tag<{ source: () => string }>('Reports')
+
+const DatabasesLive = Layer.merge(
+  Layer.value(DatabaseTag.of('primary'), { url: 'db://primary' }),
+  Layer.factory(DatabaseTag.of('replica'), () => ({ url: 'db://replica' })),
+)
+
+describe('tag.keyed', () => {
+  it('should return the same tag for the same key', () => {
+    expect(DatabaseTag.of('primary')).toBe(DatabaseTag.of('primary'))
+    expect(DatabaseTag.of('primary')).not.toBe(DatabaseTag.of('replica'))
+    expect(DatabaseTag.of('replica').name).toBe('Database:replica')
+  })
+
+  it('should not share keys between keyed tags with the same name', () => {
+    const OtherTag = tag.keyed<Database, 'primary'>('Database')
+
+    expect(OtherTag.of('primary').key).not.toBe(DatabaseTag.of('primary').key)
+  })
+})
+
+describe('container.get with a key', () => {
+  it('should resolve the service provided for the key', async () => {
+    const container = createContainer(DatabasesLive)
+
+    expect(container.get(DatabaseTag, 'primary').url).toBe('db://primary')
+    expect(container.get(DatabaseTag.of('replica'))).toBe(
+      container.get(DatabaseTag, 'replica'),
+    )
+    await expect(container.getAsync(DatabaseTag, 'replica')).resolves.toEqual({
+      url: 'db://replica',
+    })
+  })
+
+  it('should only accept keys provided by the layer', async () => {
+    const container = createContainer(DatabasesLive)
+
+    // @ts-expect-error - analytics is not provided
+    expect(() => container.get(DatabaseTag, 'analytics')).toThrow(
+      ServiceNotFoundError,
+    )
+    // @ts-expect-error - analytics is not provided
+    await expect(container.getAsync(DatabaseTag, 'analytics')).rejects.toThrow(
+      'Service not found: Database:analytics',
+    )
+    // @ts-expect-error - the key is not one of the keyed tag
+    expect(() => container.get(DatabaseTag, 'other')).toThrow(
+      ServiceNotFoundError,
+    )
+  })
+})
+
+describe('keyed dependencies', () => {
+  it('should inject the service for a specific key', () => {
+    const reportsLayer = Layer.factory(
+      ReportsTag,
+      [DatabaseTag.of('replica')],
+      (db) => ({ source: () => db.url }),
+    )
+
+    const container = createContainer(Layer.merge(DatabasesLive, reportsLayer))
+
+    expect(container.get(ReportsTag).source()).toBe('db://replica')
+  })
+
+  it('should require the specific key', () => {
+    const reportsLayer = Layer.factory(
+      ReportsTag,
+      [DatabaseTag.of('analytics')],
+      (db) => ({ source: () => db.url }),
+    )
+    const layer = Layer.merge(DatabasesLive, reportsLayer)
+
+    // @ts-expect-error - Database:analytics is required but not provided
+    expect(() => createContainer(layer)).toThrow(
+      'Service not found: Database:analytics (Reports -> Database:analytics)',
+    )
+  })
+
+  it('should release keyed transient instances', async () => {
+    const container = createContainer(
+      Layer.factory(DatabaseTag.of('analytics'), () => ({ url: 'db://a' }), {
+        scope: 'transient',
+      }),
+    )
+
+    await expect(
+      container.release(container.get(DatabaseTag, 'analytics')),
+    ).resolves.toBeUndefined()
+  })
+})
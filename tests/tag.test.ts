@@ -1,5 +1,7 @@
 import { describe, expect, it } from 'vitest'
 
+import { createContainer } from '../src/container.ts'
+import { Layer } from '../src/index.ts'
 import { tag } from '../src/tag.ts'
 import type { Tag } from '../src/types.ts'
 
@@ -41,3 +43,55 @@ describe('tag', () => {
     expect(RepositoryTag.name).toBe('Repository')
   })
 })
+
+describe('tag identity', () => {
+  it('should give every tag a unique key', () => {
+    const Tag1 = tag<{ value: string }>('Service')
+    const Tag2 = tag<{ value: string }>('Service')
+
+    expect(typeof Tag1.key).toBe('symbol')
+    expect(Tag1.key).not.toBe(Tag2.key)
+  })
+
+  it('should not resolve tags with the same name to each other', () => {
+    const LibraryALogger = tag<{ source: string }>('Logger')
+    const LibraryBLogger = tag<{ source: string }>('Logger')
+
+    const container = createContainer(
+      Layer.merge(
+        Layer.value(LibraryALogger, { source: 'a' }),
+        Layer.value(LibraryBLogger, { source: 'b' }),
+      ),
+    )
+
+    expect(container.get(LibraryALogger).source).toBe('a')
+    expect(container.get(LibraryBLogger).source).toBe('b')
+  })
+})
+
+describe('tag.global', () => {
+  it('should share the key between global tags with the same name', () => {
+    const Tag1 = tag.global<{ value: string }>('SharedLogger')
+    const Tag2 = tag.global<{ value: string }>('SharedLogger')
+
+    expect(Tag1).not.toBe(Tag2)
+    expect(Tag1.name).toBe('SharedLogger')
+    expect(Tag1.key).toBe(Tag2.key)
+    expect(Tag1.key).not.toBe(tag.global('OtherLogger').key)
+  })
+
+  it('should resolve services across global tags with the same name', () => {
+    const ProvidedTag = tag.global<{ value: string }>('SharedConfig')
+    const RequestedTag = tag.global<{ value: string }>('SharedConfig')
+
+    const container = createContainer(
+      Layer.value(ProvidedTag, { value: 'shared' }),
+    )
+
+    expect(container.get(RequestedTag).value).toBe('shared')
+  })
+
+  it('should not share the key with a local tag of the same name', () => {
+    expect(tag.global('Config').key).not.toBe(tag('Config').key)
+  })
+})
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest'
+
+import { createContainer, createContainerAsync } from '../src/container.ts'
+import { Layer } from '../src/index.ts'
+import { tag } from '../src/tag.ts'
+import type { Span, SpanAttributes, Tracer } from '../src/tracing.ts'
+
+interface RecordedSpan {
+  name: string
+  attributes: SpanAttributes | undefined
+  exceptions: (Error | string)[]
+  status: { code: number; message?: string } | undefined
+  ended: boolean
+}
+
+/**
+ * Tracer stand-in keeping every span in memory
+ */
+class InMemoryTracer implements Tracer {
+  readonly spans: RecordedSpan[] = []
+
+  startSpan(name: string, options?: { attributes?: SpanAttributes }): Span {
+    const recorded: RecordedSpan = {
+      name,
+      attributes: options?.attributes,
+      exceptions: [],
+      status: undefined,
+      ended: false,
+    }
+    this.spans.push(recorded)
+
+    return {
+      recordException: (exception) => {
+        recorded.exceptions.push(exception)
+      },
+      setStatus: (status) => {
+        recorded.status = status
+      },
+      end: () => {
+        recorded.ended = true
+      },
+    }
+  }
+}
+
+interface Config {
+  url: string
+}
+
+interface Database {
+  url: string
+}
+
+interface UserService {
+  db: Database
+}
+
+const ConfigTag = tag<Config>('Config')
+const DatabaseTag = tag<Database>('Database')
+const UserServiceTag = tag<UserService>('UserService')
+
+const AppLive = Layer.merge(
+  Layer.value(ConfigTag, { url: 'db://app' }),
+  Layer.effect(
+    DatabaseTag,
+    [ConfigTag],
+    async (config) => Promise.resolve({ ...config }),
+    { dispose: async () => Promise.resolve() },
+  ),
+  Layer.factory(UserServiceTag, [DatabaseTag], (db) => ({ db }), {
+    scope: 'scoped',
+  }),
+)
+
+describe('tracing', () => {
+  it('should record a span for every factory call', async () => {
+    const tracer = new InMemoryTracer()
+    const container = await createContainerAsync(AppLive, { tracer })
+
+    container.createScope().get(UserServiceTag)
+
+    expect(tracer.spans).toEqual([
+      {
+        name: 'create Database',
+        attributes: {
+          'unlayer.service': 'Database',
+          'unlayer.scope': 'singleton',
+          'unlayer.dependency_count': 1,
+        },
+        exceptions: [],
+        status: undefined,
+        ended: true,
+      },
+      expect.objectContaining({
+        name: 'create UserService',
+        attributes: expect.objectContaining({
+          'unlayer.scope': 'scoped',
+        }) as unknown,
+      }),
+    ])
+  })
+
+  it('should record a span for every disposer call', async () => {
+    const tracer = new InMemoryTracer()
+    const container = await createContainerAsync(AppLive, { tracer })
+    tracer.spans.length = 0
+
+    await container.dispose()
+
+    expect(tracer.spans).toEqual([
+      expect.objectContaining({
+        name: 'dispose Database',
+        attributes: {
+          'unlayer.service': 'Database',
+          'unlayer.scope': 'singleton',
+        },
+        ended: true,
+      }),
+    ])
+  })
+})
+
+describe('tracing', () => {
+  it('should record failing factories', async () => {
+    const tracer = new InMemoryTracer()
+    const error = new Error('connection refused')
+    const container = createContainer(
+      Layer.merge(
+        Layer.factory(ConfigTag, () => {
+          throw error
+        }),
+        // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors
+        Layer.effect(DatabaseTag, () => Promise.reject('timeout')),
+      ),
+      { tracer },
+    )
+
+    expect(() => container.get(ConfigTag)).toThrow('connection refused')
+    await expect(container.getAsync(DatabaseTag)).rejects.toThrow('timeout')
+
+    expect(tracer.spans).toEqual([
+      expect.objectContaining({
+        exceptions: [error],
+        status: { code: 2, message: 'connection refused' },
+        ended: true,
+      }),
+      expect.objectContaining({
+        exceptions: ['timeout'],
+        status: { code: 2, message: 'timeout' },
+        ended: true,
+      }),
+    ])
+  })
+
+  it('should record failing disposers', () => {
+    const tracer = new InMemoryTracer()
+    const container = createContainer(
+      Layer.factory(ConfigTag, () => ({ url: '' }), {
+        dispose: () => {
+          throw new Error('close failed')
+        },
+      }),
+      { tracer },
+    )
+    container.get(ConfigTag)
+
+    expect(() => container[Symbol.dispose]()).toThrow(
+      'Failed to dispose services: Config',
+    )
+    expect(tracer.spans[1]).toMatchObject({
+      name: 'dispose Config',
+      status: { code: 2, message: 'close failed' },
+      ended: true,
+    })
+  })
+})